@@ -17,42 +17,350 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import {GoogleGenAI} from '@google/genai';
 import {
-  Detection,
-  FaceDetector,
   FilesetResolver,
   HandLandmarker,
   NormalizedLandmark,
-  ObjectDetector,
   PoseLandmarker,
 } from '@mediapipe/tasks-vision';
-import {useEffect, useRef, useState} from 'react';
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {ResizePayload, useResizeDetector} from 'react-resize-detector';
+import {
+  AnalysisCacheOptions,
+  AnalysisEntry,
+  createAnalysisCache,
+  defaultAnalysisCacheOptions,
+  DueAnalysis,
+} from './analysisCache.tsx';
+import {
+  ANONYMIZE_STYLES,
+  AnonymizeStyle,
+  anonymizeFaces,
+  padFaceBox,
+} from './anonymize.tsx';
+import {
+  AttributeSchema,
+  attributePrompt,
+  attributeResponseSchema,
+  defaultAttributeSchema,
+  formatAttributeValue,
+  parseAttributes,
+  PersonAttributes,
+  validateAttributeSchema,
+} from './attributes.tsx';
+import {AttributeSchemaEditor} from './AttributeSchemaEditor.tsx';
+import {
+  createBackend,
+  Delegate,
+  loadBackend,
+  VisionResult,
+  WasmFileset,
+} from './backends.tsx';
+import {composeFrame} from './capture.tsx';
+import {getVisionConfig} from './config.tsx';
+import {colors} from './consts.tsx';
+import {
+  GeminiClient,
+  GeminiResponse,
+  getGeminiClient,
+  supportsStructuredOutput,
+} from './gemini.tsx';
+import {HeatmapPanel} from './HeatmapPanel.tsx';
+import {usePrivacyState, useRequestSchedulerState} from './hooks.tsx';
+import {ImageView} from './ImageView.tsx';
+import {
+  HandData,
+  JOINT_LANDMARKS,
+  JointName,
+  MIN_LANDMARK_VISIBILITY,
+  PoseData,
+} from './landmarks.tsx';
+import {
+  createRenderLoop,
+  FrameResult,
+  RenderLoop,
+  RenderLoopOptions,
+  RenderLoopState,
+} from './loop.tsx';
+import {
+  createMetrics,
+  defaultMetricsOptions,
+  MetricsOptions,
+} from './metrics.tsx';
+import {drawLabel} from './overlay.tsx';
+import {PerformanceHud} from './PerformanceHud.tsx';
+import {
+  defaultPrivacySettings,
+  getPrivacyGuard,
+  isPrivacyError,
+  PrivacySettings,
+  PrivacyState,
+} from './privacy.tsx';
+import {PrivacyConsentDialog, PrivacyPanel} from './PrivacyPanel.tsx';
+import {recordingMimeType} from './recording.tsx';
+import {UsagePanel} from './UsagePanel.tsx';
+import {
+  getRequestScheduler,
+  isAbortError,
+  isPermanentError,
+  SchedulerState,
+} from './requestScheduler.tsx';
+import {
+  CameraSettings,
+  createFrameSequenceSource,
+  createVideoFileSource,
+  createWebcamSource,
+  defaultCameraSettings,
+  FRAME_RATE_PRESETS,
+  InputSource,
+  InputSourceKind,
+  listCameras,
+  loadFrameFiles,
+  openCamera,
+  RESOLUTION_PRESETS,
+  ResolutionPreset,
+} from './sources.tsx';
+import {TimelinePanel} from './TimelinePanel.tsx';
+import {BoundingBox, Track} from './tracker.tsx';
+import {
+  BudgetStatus,
+  createUsageTracker,
+  defaultUsageBudgets,
+  UsageBudgets,
+} from './usage.tsx';
+import {useHeatmap} from './useHeatmap.tsx';
+import {useRecording} from './useRecording.tsx';
+import {useTimeline} from './useTimeline.tsx';
+import {useTripwires} from './useTripwires.tsx';
+import {useZones} from './useZones.tsx';
+import {TripwirePanel} from './TripwirePanel.tsx';
+import {cropToJpegBase64, downloadBlob, downloadJson} from './utils.tsx';
+import {
+  createViewport,
+  eventToScreen,
+  FitMode,
+  frameRectToScreen,
+  normalizedToScreen,
+  OverlayContext,
+  screenToFrame,
+  Viewport,
+} from './viewport.tsx';
+import {preferWorkerBackend} from './workerBackend.tsx';
+import {ZonePanel} from './ZonePanel.tsx';
+import {ZoneEvent} from './zones.tsx';
+
+// How often visible faces are checked for missing or outdated analysis
+const ANALYSIS_CHECK_INTERVAL_MS = 1000;
+// Widest a person's attribute card may get, in screen pixels
+const ATTRIBUTE_CARD_MAX_WIDTH = 280;
 
 // Simplified the vision task type for this feature
-type DetectionMode = 'object' | 'person_analysis';
+type DetectionMode =
+  'object' | 'person_analysis' | 'hands' | 'pose' | 'anonymize';
+
+// The registered vision backend each mode runs by default, off the main
+// thread where the browser allows it
+const defaultModeBackends: Record<DetectionMode, string> = {
+  object: preferWorkerBackend('mediapipe-object'),
+  person_analysis: preferWorkerBackend('mediapipe-face'),
+  hands: preferWorkerBackend('mediapipe-hands'),
+  pose: preferWorkerBackend('mediapipe-pose'),
+  anonymize: preferWorkerBackend('mediapipe-face'),
+};
+
+// Modes that run entirely on-device and take no prompt
+const PROMPTLESS_MODES: DetectionMode[] = ['hands', 'pose', 'anonymize'];
+
+interface AppProps {
+  // Backend ids to use instead of the defaults, e.g. {object: 'fake'}
+  backends?: Partial<Record<DetectionMode, string>>;
+  // Called with per-hand landmark data for every processed frame
+  onHandsDetected?: (hands: HandData[], timestampMs: number) => void;
+  // Called with per-person landmarks and joint angles for every processed frame
+  onPosesDetected?: (poses: PoseData[], timestampMs: number) => void;
+  // Called when a tracked object enters, leaves or dwells in a zone
+  onZoneEvent?: (event: ZoneEvent) => void;
+}
+
+function loadCameraSettings(): CameraSettings {
+  try {
+    return {
+      ...defaultCameraSettings,
+      ...JSON.parse(localStorage.getItem('cameraSettings') || '{}'),
+    };
+  } catch {
+    return defaultCameraSettings;
+  }
+}
+
+function loadMetricsOptions(): MetricsOptions {
+  try {
+    return {
+      ...defaultMetricsOptions,
+      ...JSON.parse(localStorage.getItem('metricsOptions') || '{}'),
+    };
+  } catch {
+    return defaultMetricsOptions;
+  }
+}
+
+function loadAnalysisCacheOptions(): AnalysisCacheOptions {
+  try {
+    return {
+      ...defaultAnalysisCacheOptions,
+      ...JSON.parse(localStorage.getItem('analysisCacheOptions') || '{}'),
+    };
+  } catch {
+    return defaultAnalysisCacheOptions;
+  }
+}
+
+function loadAttributeSchema(): AttributeSchema {
+  try {
+    const schema = JSON.parse(localStorage.getItem('attributeSchema') || '');
+    return Array.isArray(schema) && validateAttributeSchema(schema).length === 0
+      ? schema
+      : defaultAttributeSchema;
+  } catch {
+    return defaultAttributeSchema;
+  }
+}
+
+function loadAnonymizeStyle(): AnonymizeStyle {
+  const style = localStorage.getItem('anonymizeStyle');
+  return ANONYMIZE_STYLES.some((option) => option.style === style)
+    ? (style as AnonymizeStyle)
+    : 'blur';
+}
+
+function loadPrivacySettings(): PrivacySettings {
+  try {
+    return {
+      ...defaultPrivacySettings,
+      ...JSON.parse(localStorage.getItem('privacySettings') || '{}'),
+    };
+  } catch {
+    return defaultPrivacySettings;
+  }
+}
+
+function loadUsageBudgets(): UsageBudgets {
+  try {
+    return {
+      ...defaultUsageBudgets,
+      ...JSON.parse(localStorage.getItem('usageBudgets') || '{}'),
+    };
+  } catch {
+    return defaultUsageBudgets;
+  }
+}
 
-interface BoundingBox {
-  originX: number;
-  originY: number;
-  width: number;
-  height: number;
+// What a cached analysis was produced with; a change makes it due again
+function analysisKey(prompt: string, schema: AttributeSchema) {
+  return JSON.stringify({prompt, schema});
 }
 
-let lastVideoTime = -1;
-let requestAnimationId: number;
+function describeBudgetPause(status: BudgetStatus, now: number) {
+  switch (status.exceeded) {
+    case null:
+      return null;
+    case 'minute':
+      return `Analysis paused: per-minute token budget reached, resuming in ${Math.ceil(
+        (status.resumesAt - now) / 1000,
+      )}s`;
+    case 'session-tokens':
+      return 'Analysis paused: session token budget reached';
+    case 'session-cost':
+      return 'Analysis paused: session cost budget reached';
+    case 'cost-unknown':
+      return 'Analysis paused: the session cost budget cannot be checked, as the model has no known pricing';
+  }
+}
 
-function App() {
+// Why faces may not be sent for analysis, or null if they may
+function describePrivacyPause(state: PrivacyState) {
+  if (state.settings.localOnly) {
+    return 'Analysis off: local-only mode';
+  }
+  if (state.consent === 'denied') {
+    return 'Analysis off: sending images was declined';
+  }
+  // Crops are the face itself, so blurring faces leaves nothing to analyze.
+  // The background modes need no work here: a crop has no background.
+  if (state.settings.redaction === 'blur_faces') {
+    return 'Analysis off: faces are blurred before upload';
+  }
+  return null;
+}
+
+// Summary of outstanding Gemini requests, or null when there are none
+function formatSchedulerState(state: SchedulerState): string | null {
+  const parts: string[] = [];
+  if (state.rateLimitedUntil !== null) {
+    const seconds = Math.max(
+      0,
+      Math.ceil((state.rateLimitedUntil - Date.now()) / 1000),
+    );
+    parts.push(`Rate limited, resuming in ${seconds}s`);
+  }
+  if (state.inFlight) parts.push(`${state.inFlight} in flight`);
+  if (state.queued) parts.push(`${state.queued} queued`);
+  if (state.retrying) parts.push(`${state.retrying} retrying`);
+  return parts.length ? parts.join(' · ') : null;
+}
+
+function formatTime(ms: number) {
+  const seconds = ms / 1000;
+  return `${Math.floor(seconds / 60)}:${(seconds % 60)
+    .toFixed(2)
+    .padStart(5, '0')}`;
+}
+
+function App({
+  backends,
+  onHandsDetected,
+  onPosesDetected,
+  onZoneEvent,
+}: AppProps = {}) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const ai = useRef<GoogleGenAI | null>(null);
+  // Display surface for image-sequence sources
+  const frameCanvasRef = useRef<HTMLCanvasElement>(null);
+  const videoFileInput = useRef<HTMLInputElement>(null);
+  const framesInput = useRef<HTMLInputElement>(null);
+  const zipInput = useRef<HTMLInputElement>(null);
+  const ai = useRef<GeminiClient | null>(null);
 
-  // MediaPipe model refs
-  const objectDetector = useRef<ObjectDetector | null>(null);
-  const faceDetector = useRef<FaceDetector | null>(null);
-  const handLandmarker = useRef<HandLandmarker | null>(null); // Kept for potential future use
-  const poseLandmarker = useRef<PoseLandmarker | null>(null); // Kept for potential future use
-  const vision = useRef<FilesetResolver | null>(null);
+  // Vision pipeline refs
+  const vision = useRef<WasmFileset | null>(null);
+  const loop = useRef<RenderLoop | null>(null);
+  const loopHandlers = useRef<Pick<
+    RenderLoopOptions,
+    'onFrame' | 'draw' | 'onTick' | 'redrawEveryFrame'
+  > | null>(null);
+  // Incremented per model switch so that a slow load cannot replace a newer one
+  const modelRequest = useRef<number>(0);
+  const inputSource = useRef<InputSource | null>(null);
+  const containerSize = useRef({
+    width: window.innerWidth,
+    height: window.innerHeight,
+  });
+  const [fitMode, setFitMode] = useState<FitMode>('cover');
+  const fitModeRef = useRef(fitMode);
+  fitModeRef.current = fitMode;
+
+  const onResize = useCallback((el: ResizePayload) => {
+    if (el.width && el.height) {
+      containerSize.current = {width: el.width, height: el.height};
+    }
+  }, []);
+
+  const {ref: containerRef} = useResizeDetector({onResize});
+  const [loopState, setLoopState] = useState<RenderLoopState>('stopped');
+  // Most recent pose frame, kept for export
+  const latestPoses = useRef<{timestampMs: number; poses: PoseData[]} | null>(
+    null,
+  );
 
   // App state
   const [inputPrompt, setInputPrompt] = useState<string>('age and gender');
@@ -61,28 +369,132 @@ function App() {
     'Initializing AI...',
   );
   const [errorMessage, setErrorMessage] = useState<string>('');
+  // A recoverable error, shown above the view until dismissed
+  const [notice, setNotice] = useState<string | null>(null);
   const [detectionMode, setDetectionMode] =
     useState<DetectionMode>('person_analysis');
   const [detectionTarget, setDetectionTarget] = useState<string>('');
 
+  // Inference delegate state
+  const [preferredDelegate, setPreferredDelegate] = useState<Delegate>(
+    () => (localStorage.getItem('visionDelegate') as Delegate) || 'GPU',
+  );
+  const [activeDelegate, setActiveDelegate] = useState<Delegate | null>(null);
+  const [inferenceMs, setInferenceMs] = useState<number | null>(null);
+  // Smoothed per-frame inference time, published to state a few times a second
+  const inferenceLatency = useRef<number | null>(null);
+  const lastLatencyUpdate = useRef<number>(0);
+
+  // Performance metrics, shared by the render loop and Gemini calls
+  const [metrics] = useState(() => createMetrics(loadMetricsOptions()));
+  const [showHud, setShowHud] = useState<boolean>(false);
+
+  // Input source state
+  const [sourceKind, setSourceKind] = useState<InputSourceKind>('webcam');
+  const [mirrored, setMirrored] = useState<boolean>(true);
+  const [anonymizeStyle, setAnonymizeStyle] =
+    useState<AnonymizeStyle>(loadAnonymizeStyle);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+
+  const zones = useZones({redraw: () => loop.current?.redraw(), onZoneEvent});
+  const tripwires = useTripwires({redraw: () => loop.current?.redraw()});
+
+  // Session timeline
+  const timeline = useTimeline({errorMessage});
+  const [cameraSettings, setCameraSettings] =
+    useState<CameraSettings>(loadCameraSettings);
+  // Read by the device-change listener, which is registered only once
+  const cameraSettingsRef = useRef(cameraSettings);
+  cameraSettingsRef.current = cameraSettings;
+  const [frameRate, setFrameRate] = useState<number>(30);
+  const [playback, setPlayback] = useState({
+    paused: false,
+    timeMs: 0,
+    durationMs: 0,
+  });
+  const lastPlaybackUpdate = useRef<number>(0);
+
+  // Annotated recording of the live view
+  const recording = useRecording({
+    getLoop: () => loop.current,
+    getSource: () => inputSource.current,
+    logError: timeline.logError,
+  });
+
   // Person analysis state
-  const [personAnalysisResults, setPersonAnalysisResults] = useState<Array<{
-    bbox: BoundingBox;
-    text: string;
-  }> | null>(null);
-  const lastAnalysisTime = useRef<number>(0);
+  // The submitted prompt faces are analyzed with (inputPrompt is the draft)
+  const [analysisPrompt, setAnalysisPrompt] =
+    useState<string>('age and gender');
+  const [analysisCache] = useState(() =>
+    createAnalysisCache(loadAnalysisCacheOptions()),
+  );
+  const [analysisCacheOptions, setAnalysisCacheOptions] = useState(() =>
+    analysisCache.getOptions(),
+  );
+  const [attributeSchema, setAttributeSchema] =
+    useState<AttributeSchema>(loadAttributeSchema);
+  const [showAttributeEditor, setShowAttributeEditor] =
+    useState<boolean>(false);
+  const [personAnalysisResults, setPersonAnalysisResults] = useState<
+    AnalysisEntry[] | null
+  >(null);
+  const lastAnalysisCheck = useRef<number>(0);
   const isAnalyzing = useRef<boolean>(false);
+  const scheduler = getRequestScheduler();
+  const [usageTracker] = useState(() => createUsageTracker(loadUsageBudgets()));
+  // The panel shown under the top-right controls
+  const [sidePanel, setSidePanel] = useState<
+    'usage' | 'privacy' | 'zones' | 'lines' | 'heatmap' | null
+  >(null);
+  // Occupancy heatmap, accumulated for the session
+  const heatmap = useHeatmap({
+    getSource: () => inputSource.current,
+    statsVisible: sidePanel === 'heatmap',
+    redraw: () => loop.current?.redraw(),
+  });
+  const [showImageView, setShowImageView] = useState(false);
+  // Whether tracking was running when the image view was opened
+  const resumeAfterImageView = useRef(false);
+  const [privacyGuard] = useState(() => {
+    const guard = getPrivacyGuard();
+    guard.setSettings(loadPrivacySettings());
+    return guard;
+  });
+  const privacy = usePrivacyState(privacyGuard);
+  // Why live analysis is paused, or null while it runs
+  const [analysisPausedReason, setAnalysisPausedReason] = useState<
+    string | null
+  >(null);
+  const schedulerState = useRequestSchedulerState(scheduler);
+  const schedulerStatus = formatSchedulerState(schedulerState);
 
   // Main setup effect
   useEffect(() => {
+    const renderLoop = createRenderLoop({
+      canvas: canvasRef.current!,
+      getSource: () => inputSource.current,
+      getViewport: currentViewport,
+      metrics,
+      onFrame: (frame) => loopHandlers.current?.onFrame?.(frame),
+      draw: (ctx, view, frame) => loopHandlers.current?.draw(ctx, view, frame),
+      onTick: (source) => loopHandlers.current?.onTick?.(source),
+      redrawEveryFrame: () =>
+        loopHandlers.current?.redrawEveryFrame?.() ?? false,
+    });
+    loop.current = renderLoop;
+    renderLoop.start();
+    setLoopState(renderLoop.getState());
+
+    let unsubscribeUsage: (() => void) | undefined;
     async function setup() {
       try {
         setLoadingMessage('Initializing AI...');
-        ai.current = new GoogleGenAI({apiKey: process.env.API_KEY});
+        ai.current = getGeminiClient();
+        unsubscribeUsage = ai.current.onUsage(usageTracker.record);
 
         setLoadingMessage('Initializing vision tasks...');
         vision.current = await FilesetResolver.forVisionTasks(
-          'https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@latest/wasm',
+          getVisionConfig().wasmBasePath,
         );
         await setupCamera();
         // Load the initial model
@@ -109,211 +521,640 @@ function App() {
 
     // Cleanup
     return () => {
-      window.cancelAnimationFrame(requestAnimationId);
-      videoRef.current?.srcObject
-        ? (videoRef.current.srcObject as MediaStream)
-            .getTracks()
-            .forEach((track) => track.stop())
-        : null;
-      objectDetector.current?.close();
-      faceDetector.current?.close();
-      handLandmarker.current?.close();
-      poseLandmarker.current?.close();
+      unsubscribeUsage?.();
+      renderLoop.stop();
+      renderLoop.getBackend()?.close();
+      renderLoop.setBackend(null);
+      loop.current = null;
+      inputSource.current?.stop();
+      inputSource.current = null;
     };
   }, []);
 
-  async function switchModel(task: DetectionMode) {
+  // Show mode, target and analysis changes right away, even while paused
+  useEffect(() => {
+    loop.current?.redraw();
+  }, [detectionMode, detectionTarget, personAnalysisResults, anonymizeStyle]);
+
+  function showNotice(message: string) {
+    setNotice(message);
+    timeline.bus.emit('error', 'shown', message);
+  }
+
+  // Keep the camera list current as cameras are plugged in and out
+  useEffect(() => {
+    if (!navigator.mediaDevices?.addEventListener) return;
+    async function handleDeviceChange() {
+      const devices = await listCameras();
+      setCameras(devices);
+      const {deviceId} = cameraSettingsRef.current;
+      if (
+        deviceId &&
+        !devices.some((device) => device.deviceId === deviceId) &&
+        inputSource.current?.kind === 'webcam'
+      ) {
+        // The selected camera was unplugged; fall back to the default one
+        handleCameraSettingsChange({deviceId: null});
+      }
+    }
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () =>
+      navigator.mediaDevices.removeEventListener(
+        'devicechange',
+        handleDeviceChange,
+      );
+  }, []);
+
+  // Resolves to false if the model failed to load; the previous backend,
+  // if any, keeps running
+  async function switchModel(
+    task: DetectionMode,
+    delegate: Delegate = preferredDelegate,
+  ): Promise<boolean> {
     setIsLoading(true);
     setLoadingMessage('Loading AI vision model...');
-    // Close active models
-    objectDetector.current?.close();
-    faceDetector.current?.close();
-    objectDetector.current = null;
-    faceDetector.current = null;
+    const request = ++modelRequest.current;
 
     try {
-      if (task === 'object') {
-        objectDetector.current = await ObjectDetector.createFromOptions(
-          vision.current! as any,
-          {
-            baseOptions: {
-              modelAssetPath: `https://storage.googleapis.com/mediapipe-models/object_detector/efficientdet_lite0/float16/1/efficientdet_lite0.tflite`,
-              delegate: 'GPU',
-            },
-            scoreThreshold: 0.5,
-            runningMode: 'VIDEO',
-          },
-        );
-      } else if (task === 'person_analysis') {
-        faceDetector.current = await FaceDetector.createFromOptions(
-          vision.current! as any,
-          {
-            baseOptions: {
-              modelAssetPath: `https://storage.googleapis.com/mediapipe-models/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite`,
-              delegate: 'GPU',
-            },
-            runningMode: 'VIDEO',
-          },
-        );
+      const next = createBackend(backends?.[task] ?? defaultModeBackends[task]);
+      const active = await loadBackend(next, {
+        fileset: vision.current,
+        assets: getVisionConfig(),
+        delegate,
+      });
+      if (request !== modelRequest.current || !loop.current) {
+        // Superseded by a later switch, or unmounted while loading
+        next.close();
+        return true;
       }
+      // Hot-swap: the previous backend keeps running until this one is ready.
+      // Track IDs from the previous model are meaningless for the new one, so
+      // the loop restarts tracking.
+      const previous = loop.current.getBackend();
+      loop.current.setBackend(next);
+      previous?.close();
+      latestPoses.current = null;
+      inferenceLatency.current = null;
+      setInferenceMs(null);
+      setActiveDelegate(active);
       setIsLoading(false);
+      return true;
     } catch (e) {
       console.error('Failed to switch model', e);
-      setErrorMessage(
-        'Failed to load the selected AI model. Please try another prompt.',
-      );
-      setIsLoading(false);
+      if (request === modelRequest.current) {
+        showNotice(
+          loop.current?.getBackend()
+            ? 'Failed to load the selected AI model; the previous one is still running.'
+            : 'Failed to load the AI model. Please try another mode.',
+        );
+        setIsLoading(false);
+      }
+      return false;
     }
   }
 
-  async function setupCamera() {
+  /**
+   * Open the camera. Settings it cannot open with are followed by the
+   * fallbacks and then the default camera, and the settings that worked are
+   * kept.
+   * @param settings The settings to open the camera with
+   * @param fallbacks Settings to try next, e.g. the ones that worked before
+   */
+  async function setupCamera(
+    settings: CameraSettings = cameraSettings,
+    fallbacks: CameraSettings[] = [],
+  ) {
     if (!navigator.mediaDevices?.getUserMedia) {
-      setErrorMessage('Camera access is not supported by this browser.');
+      showNotice('Camera access is not supported by this browser.');
       return;
     }
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {facingMode: 'user'},
-      });
+    // Mobile browsers cannot open a second camera while one is in use
+    if (inputSource.current?.kind === 'webcam') {
+      inputSource.current.stop();
+      inputSource.current = null;
+    }
+    const attempts = [settings, ...fallbacks, defaultCameraSettings].filter(
+      (attempt, i, all) =>
+        all.findIndex(
+          (other) => JSON.stringify(other) === JSON.stringify(attempt),
+        ) === i,
+    );
+    for (const attempt of attempts) {
+      let stream: MediaStream;
+      try {
+        stream = await openCamera(attempt);
+      } catch (e) {
+        console.error('Failed to get camera feed', e);
+        // Other settings will not help without permission
+        if ((e as {name?: unknown})?.name === 'NotAllowedError') break;
+        continue;
+      }
       if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.addEventListener('loadeddata', predict);
+        const video = videoRef.current;
+        switchSource(() => createWebcamSource(video, stream));
+      }
+      if (attempt !== settings) {
+        storeCameraSettings(attempt);
+        showNotice(
+          'The camera could not open with those settings, so the previous ones are back.',
+        );
       }
+      // Device labels are only available once permission has been granted
+      setCameras(await listCameras());
+      return;
+    }
+    showNotice(
+      'Could not access the camera. Grant permission, or open a video or image frames instead.',
+    );
+  }
+
+  // Replaces the active input source. The old source is stopped before the
+  // new one is created since webcam and video-file sources share one <video>.
+  function switchSource(create: () => InputSource) {
+    inputSource.current?.stop();
+    inputSource.current = null;
+    const source = create();
+    // The render loop notices the new source and restarts tracking
+    inputSource.current = source;
+    setSourceKind(source.kind);
+    setMirrored(source.mirrored);
+    setPersonAnalysisResults(null);
+  }
+
+  function storeCameraSettings(settings: CameraSettings) {
+    cameraSettingsRef.current = settings;
+    setCameraSettings(settings);
+    localStorage.setItem('cameraSettings', JSON.stringify(settings));
+  }
+
+  function handleCameraSettingsChange(changes: Partial<CameraSettings>) {
+    const previous = cameraSettingsRef.current;
+    const next = {...previous, ...changes};
+    storeCameraSettings(next);
+    if (inputSource.current?.kind === 'webcam') setupCamera(next, [previous]);
+  }
+
+  function handleVideoFile(e: {target: HTMLInputElement}) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !videoRef.current) return;
+    const video = videoRef.current;
+    switchSource(() => createVideoFileSource(video, file));
+  }
+
+  async function handleFrameFiles(e: {target: HTMLInputElement}) {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0 || !frameCanvasRef.current) return;
+    const canvas = frameCanvasRef.current;
+    setIsLoading(true);
+    setLoadingMessage('Reading frames...');
+    try {
+      const frames = await loadFrameFiles(files);
+      const label =
+        files.length === 1
+          ? files[0].name
+          : files[0].webkitRelativePath.split('/')[0] || 'frames';
+      switchSource(() =>
+        createFrameSequenceSource(canvas, frames, {fps: frameRate, label}),
+      );
     } catch (e) {
-      console.error('Failed to get camera feed', e);
-      setErrorMessage(
-        'Could not access the camera. Please grant permission and refresh.',
+      console.error('Failed to read frames', e);
+      showNotice(
+        `Could not read frames: ${e instanceof Error ? e.message : e}`,
       );
+    } finally {
+      setIsLoading(false);
     }
   }
 
-  async function analyzeAllFaces(detections: Detection[]) {
-    if (
-      !detections ||
-      detections.length === 0 ||
-      !videoRef.current ||
-      isAnalyzing.current ||
-      !ai.current
-    )
+  async function analyzeFaces(due: DueAnalysis[]) {
+    const source = inputSource.current;
+    if (due.length === 0 || !source || isAnalyzing.current || !ai.current)
       return;
     isAnalyzing.current = true;
+    const schema = attributeSchema;
+    const key = analysisKey(analysisPrompt, schema);
+    const requestedAt = Date.now();
+    // Each face is one Gemini request, queued until its crop is encoded
+    const timers = due.map(() => metrics.trackRequest());
 
     try {
-      const analysisPromises = detections.map(async (detection) => {
-        if (!detection.boundingBox) return null;
-
-        const bbox = detection.boundingBox!;
-
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = bbox.width;
-        tempCanvas.height = bbox.height;
-        const tempCtx = tempCanvas.getContext('2d')!;
-        tempCtx.drawImage(
-          videoRef.current!,
-          bbox.originX,
-          bbox.originY,
-          bbox.width,
-          bbox.height,
-          0,
-          0,
-          bbox.width,
-          bbox.height,
-        );
+      // Encode the crops in the backend's worker when it has one
+      const boxes = due.map(({track}) => ({...track.bbox}));
+      const backend = loop.current?.getBackend();
+      const crops = backend?.encodeCrops
+        ? await backend.encodeCrops(source.element, boxes)
+        : await Promise.all(
+            boxes.map((box) => cropToJpegBase64(source.element, box)),
+          );
 
-        const imageDataUrl = tempCanvas.toDataURL('image/jpeg');
-        const base64Data = imageDataUrl.split(',')[1];
-
-        const prompt = `Analyze the person in the image based on this user query: "${inputPrompt}". Provide a concise, single-line summary of your analysis. Include estimated age and gender if not specified. Format as a comma-separated list of key-value pairs (e.g., Gender: Female, Age: 25-30).`;
-
-        const response = await ai.current.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: {
-            parts: [
-              {inlineData: {mimeType: 'image/jpeg', data: base64Data}},
-              {text: prompt},
-            ],
-          },
-        });
-
-        return {
-          bbox: {
-            originX: bbox.originX,
-            originY: bbox.originY,
-            width: bbox.width,
-            height: bbox.height,
-          },
-          text: response.text,
-        };
-      });
+      const query = attributePrompt(schema, analysisPrompt);
+      // Models without structured output fall back to the prompt's
+      // description of the JSON shape
+      const config = supportsStructuredOutput(ai.current.model)
+        ? {
+            responseMimeType: 'application/json',
+            responseSchema: attributeResponseSchema(schema),
+          }
+        : undefined;
 
-      const results = (await Promise.all(analysisPromises)).filter(Boolean);
-      setPersonAnalysisResults(
-        results as Array<{bbox: BoundingBox; text: string}>,
+      // Faces are cached as they come back; one failure does not discard
+      // the others, and a failed face is retried later with backoff.
+      await Promise.all(
+        due.map(async ({track, signature}, i) => {
+          try {
+            const response = await scheduler.schedule<GeminiResponse>(
+              (signal) =>
+                ai.current!.generate({
+                  parts: [
+                    {inlineData: {mimeType: 'image/jpeg', data: crops[i]}},
+                    {text: query},
+                  ],
+                  config,
+                  tag: 'person_analysis',
+                  signal,
+                }),
+              {group: 'person_analysis', onStart: () => timers[i].started()},
+            );
+            timers[i].finished();
+            const {attributes, errors} = parseAttributes(schema, response.text);
+            analysisCache.store({
+              trackId: track.id,
+              attributes,
+              errors,
+              prompt: key,
+              analyzedAt: requestedAt,
+              bbox: boxes[i],
+              signature,
+            });
+            setPersonAnalysisResults(analysisCache.entries());
+            let summary = Object.keys(attributes)
+              .map(
+                (name) => `${name}: ${formatAttributeValue(attributes[name])}`,
+              )
+              .join(', ');
+            if (errors.length > 0) {
+              summary += ` (problems: ${errors.join('; ')})`;
+            }
+            timeline.bus.emit('analysis', 'result', `#${track.id} ${summary}`, {
+              trackId: track.id,
+              prompt: analysisPrompt,
+              attributes,
+              errors,
+            });
+          } catch (e) {
+            // Cancelled because the prompt, mode or source changed, or
+            // blocked by a privacy setting changed while it waited
+            if (isAbortError(e) || isPrivacyError(e)) return;
+            analysisCache.fail(
+              track.id,
+              key,
+              signature,
+              !isPermanentError(e),
+              Date.now(),
+            );
+            console.error(`Failed to analyze face #${track.id}`, e);
+            timeline.logError(`Failed to analyze face #${track.id}`, e);
+          }
+        }),
       );
     } catch (e) {
+      const now = Date.now();
+      for (const {track, signature} of due) {
+        analysisCache.fail(track.id, key, signature, true, now);
+      }
       console.error('Failed to analyze faces', e);
+      timeline.logError('Failed to analyze faces', e);
     } finally {
+      // Requests that never completed count as failed
+      for (const timer of timers) timer.finished(false);
       isAnalyzing.current = false;
     }
   }
 
-  function predict() {
-    const video = videoRef.current;
-    if (!video || video.paused || video.ended) return;
-    const canvas = canvasRef.current!;
-    const ctx = canvas.getContext('2d')!;
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-
-    const renderLoop = () => {
-      if (video.currentTime !== lastVideoTime) {
-        lastVideoTime = video.currentTime;
-        const nowMs = performance.now();
-        let results: any;
-        if (detectionMode === 'object' && objectDetector.current) {
-          results = objectDetector.current.detectForVideo(video, nowMs);
-        } else if (
-          detectionMode === 'person_analysis' &&
-          faceDetector.current
-        ) {
-          results = faceDetector.current.detectForVideo(video, nowMs);
-        }
+  function handleFrame(frame: FrameResult) {
+    const {result, tracks, timestampMs} = frame;
+    inferenceLatency.current =
+      inferenceLatency.current === null
+        ? frame.inferenceMs
+        : inferenceLatency.current * 0.9 + frame.inferenceMs * 0.1;
+    const now = performance.now();
+    if (now - lastLatencyUpdate.current > 500) {
+      lastLatencyUpdate.current = now;
+      setInferenceMs(inferenceLatency.current);
+    }
 
-        if (
-          detectionMode === 'person_analysis' &&
-          results?.detections?.length > 0
-        ) {
-          if (nowMs - lastAnalysisTime.current > 3000) {
-            lastAnalysisTime.current = nowMs;
-            analyzeAllFaces(results.detections);
-          }
+    latestPoses.current = {timestampMs, poses: result.poses};
+    onHandsDetected?.(result.hands, timestampMs);
+    onPosesDetected?.(result.poses, timestampMs);
+
+    if (frame.discontinuity) {
+      // Track ids restart, so cached results would attach to the wrong faces
+      scheduler.cancel('person_analysis');
+      analysisCache.clear();
+      setPersonAnalysisResults(null);
+      lastAnalysisCheck.current = 0;
+    }
+    timeline.handleFrame(frame);
+    recording.handleFrame(frame);
+    heatmap.handleFrame(frame);
+    tripwires.handleFrame(frame);
+    zones.handleFrame(frame);
+    if (detectionMode === 'person_analysis') {
+      const wallNow = Date.now();
+      if (
+        !isAnalyzing.current &&
+        wallNow - lastAnalysisCheck.current > ANALYSIS_CHECK_INTERVAL_MS
+      ) {
+        lastAnalysisCheck.current = wallNow;
+        analysisCache.retain(tracks);
+        // Hold off while privacy settings or an exhausted usage budget
+        // forbid sending faces; cached labels stay up
+        const budget = usageTracker.budgetStatus(wallNow);
+        const privacyPause = describePrivacyPause(privacyGuard.getState());
+        setAnalysisPausedReason(
+          privacyPause ?? describeBudgetPause(budget, wallNow),
+        );
+        if (!privacyPause && !budget.exceeded) {
+          // Only faces actually detected this frame can be cropped, not
+          // coasting ones
+          const visibleTracks = tracks.filter(
+            (track) => track.detectionIndex >= 0,
+          );
+          analyzeFaces(
+            analysisCache.due(
+              visibleTracks,
+              analysisKey(analysisPrompt, attributeSchema),
+              frame.source.element,
+              wallNow,
+            ),
+          );
         }
-        drawResults(results, ctx, canvas.width, canvas.height);
       }
-      requestAnimationId = window.requestAnimationFrame(renderLoop);
+    }
+  }
+
+  function handleTick(source: InputSource | null) {
+    recording.handleTick(source);
+    const now = performance.now();
+    if (!source || source.live) return;
+    if (now - lastPlaybackUpdate.current > 100) {
+      lastPlaybackUpdate.current = now;
+      setPlayback({
+        paused: source.isPaused(),
+        timeMs: source.currentTimeMs(),
+        durationMs: source.durationMs(),
+      });
+    }
+  }
+
+  function handleAnalysisCacheOptionsChange(
+    changes: Partial<AnalysisCacheOptions>,
+  ) {
+    analysisCache.setOptions(changes);
+    const next = analysisCache.getOptions();
+    setAnalysisCacheOptions(next);
+    localStorage.setItem('analysisCacheOptions', JSON.stringify(next));
+  }
+
+  function handleAttributeSchemaChange(schema: AttributeSchema) {
+    setAttributeSchema(schema);
+    setShowAttributeEditor(false);
+    localStorage.setItem('attributeSchema', JSON.stringify(schema));
+    // Results for the old schema are now due; check immediately
+    scheduler.cancel('person_analysis');
+    lastAnalysisCheck.current = 0;
+  }
+
+  function handleUsageBudgetsChange(budgets: UsageBudgets) {
+    localStorage.setItem('usageBudgets', JSON.stringify(budgets));
+    // Re-check right away, so raising a cap resumes analysis immediately
+    lastAnalysisCheck.current = 0;
+  }
+
+  function toggleSidePanel(
+    panel: 'usage' | 'privacy' | 'zones' | 'lines' | 'heatmap',
+  ) {
+    setSidePanel(sidePanel === panel ? null : panel);
+    zones.cancelDrawing();
+    tripwires.cancelDrawing();
+  }
+
+  // Hands a click on the overlay, in normalized frame coordinates clamped
+  // to the frame, to the zone or line being drawn
+  function handleDrawingPointerDown(e: {clientX: number; clientY: number}) {
+    const view = loop.current?.getViewport();
+    if (!view || !containerRef.current) return;
+    const screen = eventToScreen(e, containerRef.current);
+    const frame = screenToFrame(view, screen);
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    const point = {
+      x: clamp(frame.x / view.frameWidth),
+      y: clamp(frame.y / view.frameHeight),
     };
-    renderLoop();
+    if (tripwires.draft) {
+      tripwires.handlePointerDown(point);
+    } else {
+      zones.handlePointerDown(point, screen, view);
+    }
+  }
+
+  function handleAnonymizeStyleChange(style: AnonymizeStyle) {
+    setAnonymizeStyle(style);
+    localStorage.setItem('anonymizeStyle', style);
+  }
+
+  async function takeSnapshot() {
+    const source = inputSource.current;
+    const view = loop.current?.getViewport();
+    if (!source?.ready() || !view || !loop.current) return;
+    // The overlay is drawn again for the captured frame, so hidden faces
+    // stay hidden in the file
+    const canvas = composeFrame(view, source.element, (ctx, v) =>
+      loop.current!.renderOverlay(ctx, v),
+    );
+    downloadBlob(
+      `snapshot-${Date.now()}.png`,
+      await canvas.convertToBlob({type: 'image/png'}),
+    );
+  }
+
+  function handlePrivacySettingsChange(settings: PrivacySettings) {
+    localStorage.setItem('privacySettings', JSON.stringify(settings));
+    if (describePrivacyPause(privacyGuard.getState())) {
+      scheduler.cancel('person_analysis');
+    }
+    // Re-check right away, so the paused notice follows the setting
+    lastAnalysisCheck.current = 0;
+  }
+
+  function exportPrivacyAudit() {
+    const {settings, sentCount, audit} = privacyGuard.getState();
+    downloadJson(`privacy-audit-${Date.now()}.json`, {
+      exportedAt: new Date().toISOString(),
+      settings,
+      sentCount,
+      images: audit,
+    });
+  }
+
+  function handleMetricsOptionsChange(options: MetricsOptions) {
+    localStorage.setItem('metricsOptions', JSON.stringify(options));
+  }
+
+  function exportMetrics() {
+    const source = inputSource.current;
+    downloadJson(`metrics-${Date.now()}.json`, {
+      environment: {
+        userAgent: navigator.userAgent,
+        hardwareConcurrency: navigator.hardwareConcurrency,
+        devicePixelRatio: window.devicePixelRatio,
+        delegate: activeDelegate,
+        backend: loop.current?.getBackend()?.id ?? null,
+        source: source
+          ? {kind: source.kind, width: source.width(), height: source.height()}
+          : null,
+      },
+      metrics: metrics.snapshot(),
+    });
+  }
+
+  // The live view is hidden behind the image view, so tracking and live
+  // analysis pause until it closes
+  function openImageView() {
+    resumeAfterImageView.current = loop.current?.getState() === 'running';
+    if (resumeAfterImageView.current) handleLoopPause();
+    setSidePanel(null);
+    zones.cancelDrawing();
+    tripwires.cancelDrawing();
+    setShowImageView(true);
+  }
+
+  function closeImageView() {
+    setShowImageView(false);
+    if (resumeAfterImageView.current && loop.current?.getState() === 'paused') {
+      handleLoopPause();
+    }
+  }
+
+  function handleLoopPause() {
+    if (!loop.current) return;
+    if (loop.current.getState() === 'paused') {
+      loop.current.resume();
+    } else {
+      loop.current.pause();
+    }
+    setLoopState(loop.current.getState());
+  }
+
+  // The render loop outlives any single render, so it calls these through a
+  // ref that always holds the latest render's handlers and state.
+  loopHandlers.current = {
+    onFrame: handleFrame,
+    draw: (ctx, view, frame) =>
+      drawResults(frame?.result ?? null, frame?.tracks ?? null, ctx, view),
+    onTick: handleTick,
+    // Hidden faces must keep up with the video, not just with detections
+    redrawEveryFrame: () => detectionMode === 'anonymize',
+  };
+
+  function currentViewport(source: InputSource): Viewport {
+    return createViewport({
+      frameWidth: source.width(),
+      frameHeight: source.height(),
+      screenWidth: containerSize.current.width,
+      screenHeight: containerSize.current.height,
+      fit: fitModeRef.current,
+      mirrored: source.mirrored,
+      devicePixelRatio: window.devicePixelRatio || 1,
+    });
   }
 
   function drawResults(
-    results: any,
-    ctx: CanvasRenderingContext2D,
-    width: number,
-    height: number,
+    result: VisionResult | null,
+    tracks: Track[] | null,
+    ctx: OverlayContext,
+    view: Viewport,
+  ) {
+    heatmap.draw(ctx, view);
+    if (detectionMode === 'anonymize') {
+      drawAnonymizedFaces(result, tracks, ctx, view);
+    } else if (result && tracks) {
+      if (detectionMode === 'person_analysis') {
+        drawFaceDetections(tracks, ctx, view);
+      } else {
+        drawObjectDetections(tracks, ctx, view);
+      }
+      drawHands(result.hands, ctx, view);
+      drawPoses(result.poses, ctx, view);
+    }
+    zones.draw(ctx, view);
+    tripwires.draw(ctx, view);
+  }
+
+  function drawAnonymizedFaces(
+    result: VisionResult | null,
+    tracks: Track[] | null,
+    ctx: OverlayContext,
+    view: Viewport,
   ) {
-    ctx.clearRect(0, 0, width, height);
-    if (!results) return;
+    const source = inputSource.current;
+    const backend = loop.current?.getBackend();
+    // Until the face model has seen the current source (startup, model
+    // switch, seek), nothing says where the faces are: hide everything
+    if (
+      !result ||
+      !tracks ||
+      !source ||
+      backend?.id !== (backends?.anonymize ?? defaultModeBackends.anonymize)
+    ) {
+      ctx.fillStyle = '#000000';
+      ctx.fillRect(0, 0, view.screenWidth, view.screenHeight);
+      drawLabel('Looking for faces…', 16, 64, ctx);
+      return;
+    }
+    // Follow faces between detections. Faces detected in the last frame
+    // are hidden where they were seen as well, including ones too new to
+    // be tracked yet.
+    const predicted = new Map<number, Track>(
+      (loop.current?.predictTracks() ?? []).map((track: Track) => [
+        track.id,
+        track,
+      ]),
+    );
+    const faces = [
+      ...tracks.map((track) => predicted.get(track.id)?.bbox ?? track.bbox),
+      ...result.detections.map((detection) => detection.bbox),
+    ];
+    anonymizeFaces(
+      ctx,
+      view,
+      source.element,
+      faces.map((face) => padFaceBox(face, view)),
+      anonymizeStyle,
+    );
+  }
 
-    if (detectionMode === 'object')
-      drawObjectDetections(results.detections, ctx, width);
-    if (detectionMode === 'person_analysis')
-      drawFaceDetections(results.detections, ctx, width);
+  function strokeTrack(
+    track: Track,
+    ctx: OverlayContext,
+    view: Viewport,
+    lineWidth: number,
+  ) {
+    const box = frameRectToScreen(view, track.bbox);
+    ctx.strokeStyle = '#3B68FF';
+    ctx.lineWidth = lineWidth;
+    // Coasting tracks are predictions, so draw them dashed
+    ctx.setLineDash(track.state === 'coasting' ? [8, 6] : []);
+    ctx.strokeRect(box.x, box.y, box.width, box.height);
+    ctx.setLineDash([]);
   }
 
   function drawObjectDetections(
-    detections: Detection[],
-    ctx: CanvasRenderingContext2D,
-    width: number,
+    tracks: Track[],
+    ctx: OverlayContext,
+    view: Viewport,
   ) {
     const targets = detectionTarget
       .toLowerCase()
@@ -321,9 +1162,8 @@ function App() {
       .split(/[\s,]+|and/i)
       .filter(Boolean);
 
-    for (const detection of detections) {
-      if (!detection.boundingBox || !detection.categories.length) continue;
-      const category = detection.categories[0].categoryName.toLowerCase();
+    for (const track of tracks) {
+      const category = track.category;
       if (targets.length > 0) {
         const matches = targets.some((target) => category.includes(target));
         if (!matches) {
@@ -331,158 +1171,209 @@ function App() {
         }
       }
 
-      const bbox = detection.boundingBox!;
-      const mirroredX = width - bbox.originX - bbox.width;
-
-      ctx.strokeStyle = '#3B68FF';
-      ctx.lineWidth = 4;
-      ctx.strokeRect(mirroredX, bbox.originY, bbox.width, bbox.height);
-      const label = `${category} (${Math.round(
-        detection.categories[0].score * 100,
+      const box = frameRectToScreen(view, track.bbox);
+      strokeTrack(track, ctx, view, 4);
+      const label = `#${track.id} ${category} (${Math.round(
+        track.score * 100,
       )}%)`;
-      drawLabel(label, mirroredX, bbox.originY, ctx);
+      drawLabel(label, box.x, box.y, ctx);
     }
   }
 
   function drawFaceDetections(
-    detections: Detection[],
-    ctx: CanvasRenderingContext2D,
-    width: number,
+    tracks: Track[],
+    ctx: OverlayContext,
+    view: Viewport,
   ) {
-    if (!detections) return;
-
-    // First, draw a bounding box for every detected face
-    for (const detection of detections) {
-      if (!detection.boundingBox) continue;
-      const bbox = detection.boundingBox!;
-      const mirroredX = width - bbox.originX - bbox.width;
-      ctx.strokeStyle = '#3B68FF';
-      ctx.lineWidth = 2;
-      ctx.strokeRect(mirroredX, bbox.originY, bbox.width, bbox.height);
+    // First, draw a bounding box and ID for every tracked face
+    for (const track of tracks) {
+      const box = frameRectToScreen(view, track.bbox);
+      strokeTrack(track, ctx, view, 2);
+      drawLabel(`#${track.id}`, box.x, box.y, ctx);
     }
 
-    // Then, try to attach analysis labels to the closest faces
+    // Then, attach analysis labels to the faces they were computed for
     if (personAnalysisResults && personAnalysisResults.length > 0) {
-      const unattachedDetections = [...detections];
-
+      const now = Date.now();
       for (const result of personAnalysisResults) {
-        let bestMatch: Detection | null = null;
-        let bestMatchIndex = -1;
-        let minDistance = Infinity;
-
-        const resultCenter = {
-          x: result.bbox.originX + result.bbox.width / 2,
-          y: result.bbox.originY + result.bbox.height / 2,
-        };
-
-        for (let i = 0; i < unattachedDetections.length; i++) {
-          const detection = unattachedDetections[i];
-          if (!detection.boundingBox) continue;
-          const detBbox = detection.boundingBox!;
-          const detCenter = {
-            x: detBbox.originX + detBbox.width / 2,
-            y: detBbox.originY + detBbox.height / 2,
-          };
-          const distance = Math.sqrt(
-            Math.pow(resultCenter.x - detCenter.x, 2) +
-              Math.pow(resultCenter.y - detCenter.y, 2),
-          );
-          if (distance < minDistance) {
-            minDistance = distance;
-            bestMatch = detection;
-            bestMatchIndex = i;
-          }
-        }
+        const track = tracks.find((t) => t.id === result.trackId);
+        if (!track) continue;
+        const box = frameRectToScreen(view, track.bbox);
+        const age = Math.max(0, Math.round((now - result.analyzedAt) / 1000));
+        drawAttributeCard(
+          `#${result.trackId} · analyzed ${age}s ago`,
+          result.attributes,
+          box.x,
+          box.y + box.height,
+          ctx,
+        );
+      }
+    }
+  }
 
-        // Heuristic: If a reasonably close match is found, draw the label and "claim" the detection
-        if (bestMatch && minDistance < bestMatch.boundingBox!.width * 0.75) {
-          const bbox = bestMatch.boundingBox!;
-          const mirroredX = width - bbox.originX - bbox.width;
-          drawLabel(
-            result.text,
-            mirroredX,
-            bbox.originY + bbox.height,
-            ctx,
-            '#3B68FF',
-            'bottom',
-          );
+  function drawHands(hands: HandData[], ctx: OverlayContext, view: Viewport) {
+    for (const hand of hands) {
+      const color = hand.handedness === 'Left' ? colors[0] : colors[4];
+      drawLandmarks(
+        [hand.landmarks],
+        HandLandmarker.HAND_CONNECTIONS,
+        ctx,
+        view,
+        color,
+      );
+      const wrist = hand.landmarks[0];
+      if (!wrist) continue;
+      const point = normalizedToScreen(view, wrist);
+      drawLabel(
+        `${hand.handedness} (${Math.round(hand.handednessScore * 100)}%)`,
+        point.x,
+        point.y + 12,
+        ctx,
+        color,
+        'bottom',
+      );
+    }
+  }
 
-          // Remove from pool of available detections so it can't be labeled twice
-          unattachedDetections.splice(bestMatchIndex, 1);
-        }
+  function drawPoses(poses: PoseData[], ctx: OverlayContext, view: Viewport) {
+    for (const pose of poses) {
+      const color = colors[pose.index % colors.length];
+      drawLandmarks(
+        [pose.landmarks],
+        PoseLandmarker.POSE_CONNECTIONS,
+        ctx,
+        view,
+        color,
+      );
+      // Label each measurable joint with its angle
+      for (const joint of Object.keys(pose.angles) as JointName[]) {
+        const angle = pose.angles[joint];
+        if (angle === null) continue;
+        const vertex = normalizedToScreen(
+          view,
+          pose.landmarks[JOINT_LANDMARKS[joint][1]],
+        );
+        drawLabel(`${Math.round(angle)}°`, vertex.x + 8, vertex.y, ctx, color);
       }
     }
   }
 
+  function exportPoses() {
+    if (!latestPoses.current) return;
+    const {timestampMs, poses} = latestPoses.current;
+    downloadJson(`poses-${Date.now()}.json`, {
+      timestampMs,
+      poses: poses.map((pose) => ({
+        index: pose.index,
+        angles: pose.angles,
+        landmarks: pose.landmarks,
+        worldLandmarks: pose.worldLandmarks,
+      })),
+    });
+  }
+
   function drawLandmarks(
     landmarks: NormalizedLandmark[][],
     connections: {start: number; end: number}[],
-    ctx: CanvasRenderingContext2D,
-    width: number,
-    height: number,
+    ctx: OverlayContext,
+    view: Viewport,
     color: string,
   ) {
+    // Hand landmarks carry no visibility, so treat a missing value as visible
+    const visibility = (point: NormalizedLandmark) => point.visibility ?? 1;
     ctx.strokeStyle = color;
+    ctx.fillStyle = color;
     ctx.lineWidth = 3;
     for (const landmark of landmarks) {
       for (const connection of connections) {
         const start = landmark[connection.start];
         const end = landmark[connection.end];
         if (start && end) {
-          const mirroredStartX = width - start.x * width;
-          const mirroredEndX = width - end.x * width;
+          const alpha = Math.min(visibility(start), visibility(end));
+          if (alpha < MIN_LANDMARK_VISIBILITY) continue;
+          const from = normalizedToScreen(view, start);
+          const to = normalizedToScreen(view, end);
+          ctx.globalAlpha = alpha;
           ctx.beginPath();
-          ctx.moveTo(mirroredStartX, start.y * height);
-          ctx.lineTo(mirroredEndX, end.y * height);
+          ctx.moveTo(from.x, from.y);
+          ctx.lineTo(to.x, to.y);
           ctx.stroke();
         }
       }
+      for (const point of landmark) {
+        if (visibility(point) < MIN_LANDMARK_VISIBILITY) continue;
+        const center = normalizedToScreen(view, point);
+        ctx.globalAlpha = visibility(point);
+        ctx.beginPath();
+        ctx.arc(center.x, center.y, 4, 0, 2 * Math.PI);
+        ctx.fill();
+      }
     }
+    ctx.globalAlpha = 1;
   }
 
-  function drawLabel(
-    label: string,
+  // A card with one "name: value" row per attribute, below a header line.
+  // Values are cut to fit the card rather than wrapped.
+  function drawAttributeCard(
+    header: string,
+    attributes: PersonAttributes,
     x: number,
     y: number,
-    ctx: CanvasRenderingContext2D,
-    color = '#3B68FF',
-    position: 'top' | 'bottom' = 'top',
+    ctx: OverlayContext,
   ) {
-    ctx.font = '16px Space Mono';
-    const lines = label.split(', ');
-    let maxWidth = 0;
-    lines.forEach((line) => {
-      const width = ctx.measureText(line).width;
-      if (width > maxWidth) {
-        maxWidth = width;
-      }
-    });
-
     const lineHeight = 20;
-    const bgHeight = lines.length * lineHeight + 8;
-    const bgWidth = maxWidth + 16;
-    let bgX = x;
-    let bgY;
+    const padding = 8;
+    const rows = Object.keys(attributes).map(
+      (name) => `${name}: ${formatAttributeValue(attributes[name])}`,
+    );
 
-    if (position === 'top') {
-      bgY = y > bgHeight ? y - bgHeight : y;
-    } else {
-      bgY = y;
-    }
+    ctx.font = '16px Space Mono';
+    const fit = (text: string) => {
+      if (ctx.measureText(text).width <= ATTRIBUTE_CARD_MAX_WIDTH) return text;
+      let end = text.length;
+      while (
+        end > 0 &&
+        ctx.measureText(`${text.slice(0, end)}…`).width >
+          ATTRIBUTE_CARD_MAX_WIDTH
+      ) {
+        end--;
+      }
+      return `${text.slice(0, end)}…`;
+    };
+    const lines = [header, ...rows].map(fit);
+    const width =
+      Math.max(...lines.map((line) => ctx.measureText(line).width)) +
+      padding * 2;
+    const height = lines.length * lineHeight + padding;
 
-    ctx.fillStyle = color;
-    ctx.fillRect(bgX, bgY, bgWidth, bgHeight);
-    ctx.fillStyle = color === '#FFFF00' ? '#000000' : '#FFFFFF';
+    ctx.fillStyle = '#3B68FF';
+    ctx.fillRect(x, y, width, height);
+    ctx.fillStyle = '#FFFFFF';
     ctx.textBaseline = 'top';
     lines.forEach((line, index) => {
-      ctx.fillText(line, bgX + 8, bgY + 4 + index * lineHeight);
+      // The header is set off from the attribute rows
+      ctx.globalAlpha = index === 0 ? 0.7 : 1;
+      ctx.fillText(line, x + padding, y + padding / 2 + index * lineHeight);
     });
+    ctx.globalAlpha = 1;
   }
 
   async function handleModeChange(mode: DetectionMode) {
     if (mode === detectionMode) return;
+    const previous = {
+      mode: detectionMode,
+      inputPrompt,
+      detectionTarget,
+      analysisPrompt,
+    };
 
     setDetectionMode(mode);
+    timeline.bus.emit('mode', 'changed', `${detectionMode} → ${mode}`, {
+      from: detectionMode,
+      to: mode,
+    });
+    scheduler.cancel('person_analysis');
+    setAnalysisPausedReason(null);
     setPersonAnalysisResults(null);
     setErrorMessage('');
 
@@ -490,42 +1381,462 @@ function App() {
       const newPrompt = 'cup'; // A sensible default
       setInputPrompt(newPrompt);
       setDetectionTarget(newPrompt);
+      timeline.bus.emit('prompt', 'changed', newPrompt, {
+        mode,
+        prompt: newPrompt,
+      });
+    } else if (PROMPTLESS_MODES.includes(mode)) {
+      // Landmark tracking and anonymization run entirely on-device and take
+      // no prompt
+      setInputPrompt('');
+      setDetectionTarget('');
+      // A paused overlay would stop hiding faces that move
+      if (mode === 'anonymize' && loop.current?.getState() === 'paused') {
+        loop.current.resume();
+        setLoopState(loop.current.getState());
+      }
     } else {
       // person_analysis
       const newPrompt = 'age and gender'; // A sensible default
       setInputPrompt(newPrompt);
+      setAnalysisPrompt(newPrompt);
+      timeline.bus.emit('prompt', 'changed', newPrompt, {
+        mode,
+        prompt: newPrompt,
+      });
       setDetectionTarget('');
     }
 
-    await switchModel(mode);
+    if (!(await switchModel(mode))) {
+      // The previous mode's model is still running; match it again
+      setDetectionMode(previous.mode);
+      setInputPrompt(previous.inputPrompt);
+      setDetectionTarget(previous.detectionTarget);
+      setAnalysisPrompt(previous.analysisPrompt);
+    }
+  }
+
+  async function handleDelegateChange(delegate: Delegate) {
+    if (delegate === preferredDelegate) return;
+    const previous = preferredDelegate;
+    setPreferredDelegate(delegate);
+    localStorage.setItem('visionDelegate', delegate);
+    setErrorMessage('');
+    if (!(await switchModel(detectionMode, delegate))) {
+      setPreferredDelegate(previous);
+      localStorage.setItem('visionDelegate', previous);
+    }
   }
 
   async function handlePromptSubmit(e: React.FormEvent) {
     e.preventDefault();
     if (!inputPrompt) return;
 
+    timeline.bus.emit('prompt', 'changed', inputPrompt, {
+      mode: detectionMode,
+      prompt: inputPrompt,
+    });
     if (detectionMode === 'object') {
       setDetectionTarget(inputPrompt);
     } else if (detectionMode === 'person_analysis') {
-      // The prompt has changed, so we want to re-analyze immediately.
-      lastAnalysisTime.current = 0;
-      setPersonAnalysisResults(null); // Clear previous results
+      // Cached results for the old prompt are now due; check immediately
+      // rather than at the next interval
+      scheduler.cancel('person_analysis');
+      setAnalysisPrompt(inputPrompt);
+      lastAnalysisCheck.current = 0;
     }
   }
 
   return (
-    <div className="relative w-screen h-screen overflow-hidden bg-black">
+    <div
+      ref={containerRef}
+      className="relative w-screen h-screen overflow-hidden bg-black">
+      {/* Video, frame canvas and overlay all fill the container; the overlay
+          is drawn through the viewport transform to line up with the fit */}
       <video
         ref={videoRef}
         autoPlay
         playsInline
-        className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 min-w-full min-h-full object-cover"
-        style={{transform: 'scaleX(-1)'}}
+        className={`absolute inset-0 h-full w-full ${
+          fitMode === 'cover' ? 'object-cover' : 'object-contain'
+        } ${sourceKind === 'frames' ? 'hidden' : ''}`}
+        style={{transform: mirrored ? 'scaleX(-1)' : 'none'}}
       />
       <canvas
-        ref={canvasRef}
-        className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 min-w-full min-h-full"
+        ref={frameCanvasRef}
+        className={`absolute inset-0 h-full w-full ${
+          fitMode === 'cover' ? 'object-cover' : 'object-contain'
+        } ${sourceKind === 'frames' ? '' : 'hidden'}`}
+      />
+      <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" />
+      {(zones.draft !== null || tripwires.draft !== null) && (
+        <div
+          className="absolute inset-0 cursor-crosshair"
+          onPointerDown={handleDrawingPointerDown}
+          onDoubleClick={() => zones.draft && zones.finishDrawing()}
+        />
+      )}
+
+      <div className="absolute left-4 top-4 z-10 flex items-center gap-2 rounded-full bg-black bg-opacity-50 px-3 py-1 text-xs text-gray-300">
+        <button
+          onClick={handleLoopPause}
+          disabled={
+            loopState === 'stopped' ||
+            (detectionMode === 'anonymize' && loopState === 'running')
+          }
+          title={
+            detectionMode === 'anonymize' && loopState === 'running'
+              ? 'Faces are only hidden while tracking runs'
+              : undefined
+          }
+          className="rounded-full px-2 py-0.5 transition-colors hover:bg-white hover:bg-opacity-10 disabled:opacity-50"
+          aria-label={
+            loopState === 'paused' ? 'Resume tracking' : 'Pause tracking'
+          }>
+          {loopState === 'paused' ? '▶' : '⏸'}
+        </button>
+        {(['GPU', 'CPU'] as Delegate[]).map((delegate) => (
+          <button
+            key={delegate}
+            onClick={() => handleDelegateChange(delegate)}
+            disabled={isLoading}
+            className={`rounded-full px-2 py-0.5 transition-colors disabled:opacity-50 ${
+              preferredDelegate === delegate
+                ? 'bg-[#3B68FF] text-white'
+                : 'hover:bg-white hover:bg-opacity-10'
+            }`}>
+            {delegate}
+          </button>
+        ))}
+        <span>
+          {activeDelegate
+            ? `running on ${activeDelegate}${
+                activeDelegate !== preferredDelegate ? ' (fallback)' : ''
+              }`
+            : 'loading'}
+          {inferenceMs !== null && ` · ${inferenceMs.toFixed(1)} ms`}
+        </span>
+        <button
+          onClick={() => setShowHud(!showHud)}
+          className={`rounded-full px-2 py-0.5 transition-colors ${
+            showHud
+              ? 'bg-[#3B68FF] text-white'
+              : 'hover:bg-white hover:bg-opacity-10'
+          }`}>
+          HUD
+        </button>
+        <button
+          onClick={() => toggleSidePanel('usage')}
+          className={`rounded-full px-2 py-0.5 transition-colors ${
+            sidePanel === 'usage'
+              ? 'bg-[#3B68FF] text-white'
+              : 'hover:bg-white hover:bg-opacity-10'
+          }`}>
+          Usage
+        </button>
+        <button
+          onClick={() => toggleSidePanel('privacy')}
+          className={`rounded-full px-2 py-0.5 transition-colors ${
+            sidePanel === 'privacy'
+              ? 'bg-[#3B68FF] text-white'
+              : 'hover:bg-white hover:bg-opacity-10'
+          }`}
+          title={
+            privacy.settings.localOnly
+              ? 'Local only: nothing is sent to Gemini'
+              : `${privacy.sentCount} images sent to Gemini this session`
+          }>
+          {privacy.settings.localOnly ? 'Local only' : 'Privacy'}
+        </button>
+        <button
+          onClick={() => toggleSidePanel('zones')}
+          className={`rounded-full px-2 py-0.5 transition-colors ${
+            sidePanel === 'zones'
+              ? 'bg-[#3B68FF] text-white'
+              : 'hover:bg-white hover:bg-opacity-10'
+          }`}>
+          Zones
+        </button>
+        <button
+          onClick={() => toggleSidePanel('lines')}
+          className={`rounded-full px-2 py-0.5 transition-colors ${
+            sidePanel === 'lines'
+              ? 'bg-[#3B68FF] text-white'
+              : 'hover:bg-white hover:bg-opacity-10'
+          }`}>
+          Lines
+        </button>
+        <button
+          onClick={() => toggleSidePanel('heatmap')}
+          className={`rounded-full px-2 py-0.5 transition-colors ${
+            sidePanel === 'heatmap'
+              ? 'bg-[#3B68FF] text-white'
+              : 'hover:bg-white hover:bg-opacity-10'
+          }`}>
+          Heatmap
+        </button>
+        <button
+          onClick={openImageView}
+          disabled={recording.state !== 'idle'}
+          className="rounded-full px-2 py-0.5 transition-colors hover:bg-white hover:bg-opacity-10 disabled:opacity-50"
+          title="Find objects, masks and points in a still image with Gemini">
+          Image
+        </button>
+        <button
+          onClick={takeSnapshot}
+          disabled={loopState === 'stopped'}
+          className="rounded-full px-2 py-0.5 transition-colors hover:bg-white hover:bg-opacity-10 disabled:opacity-50">
+          Snapshot
+        </button>
+        <button
+          onClick={recording.toggle}
+          disabled={
+            recording.state === 'saving' ||
+            (recording.state === 'idle' &&
+              (loopState === 'stopped' || recordingMimeType() === null))
+          }
+          className={`rounded-full px-2 py-0.5 transition-colors disabled:opacity-50 ${
+            recording.state === 'recording'
+              ? 'bg-red-600 text-white'
+              : 'hover:bg-white hover:bg-opacity-10'
+          }`}
+          title={
+            recordingMimeType() === null
+              ? 'Recording is not supported by this browser'
+              : 'Record the view with its overlay as WebM, with a JSON file of the detections'
+          }>
+          {recording.state === 'recording'
+            ? `Stop ${formatTime(recording.elapsedMs).slice(0, -3)}`
+            : recording.state === 'saving'
+              ? 'Saving...'
+              : 'Record'}
+        </button>
+      </div>
+      {showHud && (
+        <PerformanceHud
+          metrics={metrics}
+          onOptionsChange={handleMetricsOptionsChange}
+          onExport={exportMetrics}
+        />
+      )}
+      {sidePanel === 'usage' && (
+        <UsagePanel
+          tracker={usageTracker}
+          onBudgetsChange={handleUsageBudgetsChange}
+        />
+      )}
+      {sidePanel === 'privacy' && (
+        <PrivacyPanel
+          guard={privacyGuard}
+          onSettingsChange={handlePrivacySettingsChange}
+          onExportAudit={exportPrivacyAudit}
+        />
+      )}
+      {sidePanel === 'zones' && (
+        <ZonePanel
+          zones={zones.zones}
+          onZonesChange={zones.onZonesChange}
+          occupancy={zones.occupancy}
+          draft={zones.draft}
+          onStartDrawing={zones.startDrawing}
+          onFinishDrawing={zones.finishDrawing}
+          onCancelDrawing={zones.cancelDrawing}
+          dwellMs={zones.dwellMs}
+          onDwellMsChange={zones.onDwellMsChange}
+          events={zones.events}
+        />
+      )}
+      {sidePanel === 'lines' && (
+        <TripwirePanel
+          tripwires={tripwires.tripwires}
+          onTripwiresChange={tripwires.onTripwiresChange}
+          counts={tripwires.counts}
+          draft={tripwires.draft}
+          onStartDrawing={tripwires.startDrawing}
+          onCancelDrawing={tripwires.cancelDrawing}
+          hysteresis={tripwires.hysteresis}
+          onHysteresisChange={tripwires.onHysteresisChange}
+          bucketMs={tripwires.bucketMs}
+          onBucketMsChange={tripwires.onBucketMsChange}
+          onResetCounts={tripwires.resetCounts}
+          onExport={tripwires.exportCrossings}
+        />
+      )}
+      {sidePanel === 'heatmap' && (
+        <HeatmapPanel
+          visible={heatmap.visible}
+          onVisibleChange={heatmap.onVisibleChange}
+          layer={heatmap.layer}
+          onLayerChange={heatmap.onLayerChange}
+          categories={heatmap.categories}
+          dwell={heatmap.dwell}
+          onExportPng={heatmap.exportPng}
+          onExportJson={heatmap.exportJson}
+          onReset={heatmap.reset}
+        />
+      )}
+      {notice && (
+        <div
+          role="alert"
+          className="absolute left-1/2 top-14 z-10 flex max-w-lg -translate-x-1/2 items-start gap-2 rounded-lg bg-red-800 bg-opacity-90 px-3 py-2 text-xs text-white">
+          <span>{notice}</span>
+          <button onClick={() => setNotice(null)} aria-label="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
+      <TimelinePanel
+        bus={timeline.bus}
+        onExportJsonLines={timeline.exportJsonLines}
+        onExportCsv={timeline.exportCsv}
       />
+      {showImageView && <ImageView onClose={closeImageView} />}
+      <PrivacyConsentDialog guard={privacyGuard} />
+
+      <div className="absolute right-4 top-4 z-10 flex items-center gap-2 rounded-full bg-black bg-opacity-50 px-3 py-1 text-xs text-gray-300">
+        <button
+          onClick={() => sourceKind !== 'webcam' && setupCamera()}
+          disabled={isLoading}
+          className={`rounded-full px-2 py-0.5 transition-colors disabled:opacity-50 ${
+            sourceKind === 'webcam'
+              ? 'bg-[#3B68FF] text-white'
+              : 'hover:bg-white hover:bg-opacity-10'
+          }`}>
+          Camera
+        </button>
+        <button
+          onClick={() => videoFileInput.current?.click()}
+          disabled={isLoading}
+          className={`rounded-full px-2 py-0.5 transition-colors disabled:opacity-50 ${
+            sourceKind === 'video'
+              ? 'bg-[#3B68FF] text-white'
+              : 'hover:bg-white hover:bg-opacity-10'
+          }`}>
+          Video
+        </button>
+        <button
+          onClick={() => framesInput.current?.click()}
+          disabled={isLoading}
+          className={`rounded-full px-2 py-0.5 transition-colors disabled:opacity-50 ${
+            sourceKind === 'frames'
+              ? 'bg-[#3B68FF] text-white'
+              : 'hover:bg-white hover:bg-opacity-10'
+          }`}>
+          Frames
+        </button>
+        <button
+          onClick={() => zipInput.current?.click()}
+          disabled={isLoading}
+          className="rounded-full px-2 py-0.5 transition-colors hover:bg-white hover:bg-opacity-10 disabled:opacity-50">
+          ZIP
+        </button>
+        {sourceKind === 'webcam' && (
+          <>
+            <select
+              value={cameraSettings.deviceId ?? ''}
+              onChange={(e) =>
+                handleCameraSettingsChange({deviceId: e.target.value || null})
+              }
+              disabled={isLoading}
+              className="max-w-32 bg-transparent focus:outline-none"
+              aria-label="Camera">
+              <option value="">
+                {cameraSettings.facingMode === 'user'
+                  ? 'Front camera'
+                  : 'Back camera'}
+              </option>
+              {cameras.map((camera, i) => (
+                <option key={camera.deviceId} value={camera.deviceId}>
+                  {camera.label || `Camera ${i + 1}`}
+                </option>
+              ))}
+            </select>
+            <select
+              value={cameraSettings.resolution}
+              onChange={(e) =>
+                handleCameraSettingsChange({
+                  resolution: e.target.value as ResolutionPreset,
+                })
+              }
+              disabled={isLoading}
+              className="bg-transparent focus:outline-none"
+              aria-label="Resolution">
+              {Object.keys(RESOLUTION_PRESETS).map((preset) => (
+                <option key={preset} value={preset}>
+                  {preset}
+                </option>
+              ))}
+            </select>
+            <select
+              value={cameraSettings.frameRate}
+              onChange={(e) =>
+                handleCameraSettingsChange({frameRate: Number(e.target.value)})
+              }
+              disabled={isLoading}
+              className="bg-transparent focus:outline-none"
+              aria-label="Camera frame rate">
+              {FRAME_RATE_PRESETS.map((fps) => (
+                <option key={fps} value={fps}>
+                  {fps ? `${fps} fps` : 'auto fps'}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() =>
+                handleCameraSettingsChange({
+                  deviceId: null,
+                  facingMode:
+                    cameraSettings.facingMode === 'user' ? 'environment' : 'user',
+                })
+              }
+              disabled={isLoading}
+              className="rounded-full px-2 py-0.5 transition-colors hover:bg-white hover:bg-opacity-10 disabled:opacity-50"
+              aria-label="Switch between front and back camera">
+              ⇄
+            </button>
+          </>
+        )}
+        <button
+          onClick={() => setFitMode(fitMode === 'cover' ? 'contain' : 'cover')}
+          className="rounded-full px-2 py-0.5 transition-colors hover:bg-white hover:bg-opacity-10"
+          aria-label="Toggle between filling and fitting the view">
+          {fitMode === 'cover' ? 'Fill' : 'Fit'}
+        </button>
+        <label className="flex items-center gap-1">
+          <input
+            type="number"
+            min={1}
+            max={120}
+            value={frameRate}
+            onChange={(e) => setFrameRate(Number(e.target.value) || 30)}
+            className="w-10 bg-transparent text-right focus:outline-none"
+            aria-label="Frame rate for image sequences"
+          />
+          fps
+        </label>
+        <input
+          ref={videoFileInput}
+          type="file"
+          accept="video/*"
+          className="hidden"
+          onChange={handleVideoFile}
+        />
+        <input
+          ref={framesInput}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={handleFrameFiles}
+          {...{webkitdirectory: ''}}
+        />
+        <input
+          ref={zipInput}
+          type="file"
+          accept=".zip,application/zip"
+          className="hidden"
+          onChange={handleFrameFiles}
+        />
+      </div>
 
       {(isLoading || errorMessage) && (
         <div
@@ -562,6 +1873,42 @@ function App() {
       )}
 
       <div className="absolute bottom-5 left-1/2 z-10 w-full max-w-lg -translate-x-1/2 px-4">
+        {sourceKind !== 'webcam' && (
+          <div className="mb-2 flex items-center gap-2 rounded-full bg-black bg-opacity-50 px-3 py-1 text-xs text-gray-300">
+            <button
+              onClick={() => inputSource.current?.step(-1)}
+              aria-label="Previous frame">
+              ⏮
+            </button>
+            <button
+              onClick={() =>
+                playback.paused
+                  ? inputSource.current?.play()
+                  : inputSource.current?.pause()
+              }
+              aria-label={playback.paused ? 'Play' : 'Pause'}>
+              {playback.paused ? '▶' : '⏸'}
+            </button>
+            <button
+              onClick={() => inputSource.current?.step(1)}
+              aria-label="Next frame">
+              ⏭
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={playback.durationMs}
+              step={inputSource.current?.frameIntervalMs() ?? 1}
+              value={playback.timeMs}
+              onChange={(e) => inputSource.current?.seek(Number(e.target.value))}
+              className="flex-grow"
+              aria-label="Seek"
+            />
+            <span className="whitespace-nowrap">
+              {formatTime(playback.timeMs)} / {formatTime(playback.durationMs)}
+            </span>
+          </div>
+        )}
         <div className="mb-2 flex justify-center gap-2">
           <button
             onClick={() => handleModeChange('person_analysis')}
@@ -583,7 +1930,132 @@ function App() {
             }`}>
             Detect Object
           </button>
+          <button
+            onClick={() => handleModeChange('hands')}
+            disabled={isLoading}
+            className={`rounded-full px-4 py-2 text-sm font-medium transition-colors disabled:opacity-50 ${
+              detectionMode === 'hands'
+                ? 'bg-[#3B68FF] text-white'
+                : 'bg-black bg-opacity-50 text-gray-300 hover:bg-opacity-70'
+            }`}>
+            Track Hands
+          </button>
+          <button
+            onClick={() => handleModeChange('pose')}
+            disabled={isLoading}
+            className={`rounded-full px-4 py-2 text-sm font-medium transition-colors disabled:opacity-50 ${
+              detectionMode === 'pose'
+                ? 'bg-[#3B68FF] text-white'
+                : 'bg-black bg-opacity-50 text-gray-300 hover:bg-opacity-70'
+            }`}>
+            Track Pose
+          </button>
+          <button
+            onClick={() => handleModeChange('anonymize')}
+            disabled={isLoading}
+            className={`rounded-full px-4 py-2 text-sm font-medium transition-colors disabled:opacity-50 ${
+              detectionMode === 'anonymize'
+                ? 'bg-[#3B68FF] text-white'
+                : 'bg-black bg-opacity-50 text-gray-300 hover:bg-opacity-70'
+            }`}>
+            Hide Faces
+          </button>
+          {detectionMode === 'anonymize' && (
+            <select
+              value={anonymizeStyle}
+              onChange={(e: {target: HTMLSelectElement}) =>
+                handleAnonymizeStyleChange(e.target.value as AnonymizeStyle)
+              }
+              className="rounded-full bg-black bg-opacity-50 px-4 py-2 text-sm font-medium text-gray-300"
+              aria-label="How faces are hidden">
+              {ANONYMIZE_STYLES.map(({style, label}) => (
+                <option key={style} value={style}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          )}
+          {detectionMode === 'pose' && (
+            <button
+              onClick={exportPoses}
+              disabled={isLoading}
+              className="rounded-full bg-black bg-opacity-50 px-4 py-2 text-sm font-medium text-gray-300 transition-colors hover:bg-opacity-70 disabled:opacity-50">
+              Export
+            </button>
+          )}
         </div>
+        {detectionMode === 'person_analysis' && showAttributeEditor && (
+          <AttributeSchemaEditor
+            schema={attributeSchema}
+            onApply={handleAttributeSchemaChange}
+            onClose={() => setShowAttributeEditor(false)}
+          />
+        )}
+        {(detectionMode === 'person_analysis' || schedulerStatus) && (
+          <div className="mb-2 flex justify-center gap-2">
+            {detectionMode === 'person_analysis' && (
+              <div className="flex items-center gap-2 rounded-full bg-black bg-opacity-50 px-4 py-2 text-xs text-gray-300">
+                <label className="flex items-center gap-1">
+                  refresh after
+                  <input
+                    type="number"
+                    min={0}
+                    value={analysisCacheOptions.staleAfterMs / 1000}
+                    onChange={(e: {target: HTMLInputElement}) =>
+                      handleAnalysisCacheOptionsChange({
+                        staleAfterMs:
+                          Math.max(0, Number(e.target.value)) * 1000,
+                      })
+                    }
+                    className="w-12 rounded bg-black bg-opacity-50 px-1"
+                    title="0 keeps results until the face is lost"
+                  />
+                  s
+                </label>
+                <label className="flex items-center gap-1">
+                  on change
+                  <input
+                    type="range"
+                    min={0}
+                    max={0.3}
+                    step={0.01}
+                    value={analysisCacheOptions.appearanceThreshold}
+                    onChange={(e: {target: HTMLInputElement}) =>
+                      handleAnalysisCacheOptionsChange({
+                        appearanceThreshold: Number(e.target.value),
+                      })
+                    }
+                    title="How much a face must change before it is re-analyzed; 0 disables"
+                  />
+                </label>
+                <button
+                  onClick={() => setShowAttributeEditor(!showAttributeEditor)}
+                  className="rounded-full px-2 hover:bg-white hover:bg-opacity-10"
+                  title={attributeSchema
+                    .map((definition) => definition.name)
+                    .join(', ')}>
+                  attributes ({attributeSchema.length})
+                </button>
+              </div>
+            )}
+            {detectionMode === 'person_analysis' && analysisPausedReason && (
+              <div className="rounded-full bg-yellow-700 bg-opacity-90 px-4 py-2 text-xs text-white">
+                {analysisPausedReason}
+              </div>
+            )}
+            {schedulerStatus && (
+              <div
+                className={`rounded-full px-4 py-2 text-xs ${
+                  schedulerState.rateLimitedUntil !== null
+                    ? 'bg-red-800 bg-opacity-90 text-white'
+                    : 'bg-black bg-opacity-50 text-gray-300'
+                }`}
+                title={schedulerState.lastError ?? undefined}>
+                {schedulerStatus}
+              </div>
+            )}
+          </div>
+        )}
         <form
           onSubmit={handlePromptSubmit}
           className="flex items-center gap-2 rounded-full border border-gray-600 bg-black bg-opacity-50 p-2 pl-4">
@@ -594,10 +2066,18 @@ function App() {
             placeholder={
               detectionMode === 'person_analysis'
                 ? 'Ask for more details (e.g., "mood")'
-                : 'Describe what to track...'
+                : detectionMode === 'anonymize'
+                  ? 'Anonymization needs no prompt'
+                  : PROMPTLESS_MODES.includes(detectionMode)
+                    ? 'Landmark tracking needs no prompt'
+                    : 'Describe what to track...'
             }
             className="w-full flex-grow bg-transparent text-white placeholder-gray-400 focus:outline-none"
-            disabled={isLoading || !!errorMessage}
+            disabled={
+              isLoading ||
+              !!errorMessage ||
+              PROMPTLESS_MODES.includes(detectionMode)
+            }
             aria-label="Object to track"
           />
           <button
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {useState} from 'react';
+import {
+  ATTRIBUTE_TYPES,
+  AttributeDefinition,
+  AttributeSchema,
+  AttributeType,
+  defaultAttributeSchema,
+  validateAttributeSchema,
+} from './attributes.tsx';
+
+interface AttributeSchemaEditorProps {
+  schema: AttributeSchema;
+  onApply: (schema: AttributeSchema) => void;
+  onClose: () => void;
+}
+
+function parseBound(value: string) {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+export function AttributeSchemaEditor({
+  schema,
+  onApply,
+  onClose,
+}: AttributeSchemaEditorProps) {
+  const [draft, setDraft] = useState<AttributeSchema>(schema);
+  const errors = validateAttributeSchema(draft);
+
+  function update(index: number, changes: Partial<AttributeDefinition>) {
+    setDraft(
+      draft.map((definition, i) =>
+        i === index ? {...definition, ...changes} : definition,
+      ),
+    );
+  }
+
+  const inputClass = 'rounded bg-black bg-opacity-50 px-1';
+
+  return (
+    <div className="absolute bottom-44 left-1/2 z-20 w-full max-w-lg -translate-x-1/2 rounded-lg bg-black bg-opacity-80 p-3 text-xs text-gray-300">
+      <div className="mb-2 text-sm text-white">Person attributes</div>
+      <div className="flex flex-col gap-2">
+        {draft.map((definition, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-1">
+            <input
+              value={definition.name}
+              onChange={(e: {target: HTMLInputElement}) =>
+                update(index, {name: e.target.value})
+              }
+              placeholder="name"
+              className={`${inputClass} w-24`}
+              aria-label="Attribute name"
+            />
+            <select
+              value={definition.type}
+              onChange={(e: {target: HTMLSelectElement}) =>
+                update(index, {type: e.target.value as AttributeType})
+              }
+              className={inputClass}
+              aria-label="Attribute type">
+              {ATTRIBUTE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+            {definition.type === 'enum' && (
+              <input
+                value={(definition.values ?? []).join(', ')}
+                onChange={(e: {target: HTMLInputElement}) =>
+                  update(index, {
+                    values: e.target.value
+                      .split(',')
+                      .map((value) => value.trim())
+                      .filter(Boolean),
+                  })
+                }
+                placeholder="allowed values, comma separated"
+                className={`${inputClass} flex-grow`}
+                aria-label="Allowed values"
+              />
+            )}
+            {(definition.type === 'number' || definition.type === 'range') && (
+              <>
+                <input
+                  type="number"
+                  value={definition.min ?? ''}
+                  onChange={(e: {target: HTMLInputElement}) =>
+                    update(index, {min: parseBound(e.target.value)})
+                  }
+                  placeholder="min"
+                  className={`${inputClass} w-14`}
+                  aria-label="Minimum"
+                />
+                <input
+                  type="number"
+                  value={definition.max ?? ''}
+                  onChange={(e: {target: HTMLInputElement}) =>
+                    update(index, {max: parseBound(e.target.value)})
+                  }
+                  placeholder="max"
+                  className={`${inputClass} w-14`}
+                  aria-label="Maximum"
+                />
+              </>
+            )}
+            <input
+              value={definition.description ?? ''}
+              onChange={(e: {target: HTMLInputElement}) =>
+                update(index, {description: e.target.value || undefined})
+              }
+              placeholder="description (optional)"
+              className={`${inputClass} flex-grow`}
+              aria-label="Description"
+            />
+            <button
+              onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+              className="rounded-full px-2 hover:bg-white hover:bg-opacity-10"
+              aria-label="Remove attribute">
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+      {errors.length > 0 && (
+        <ul className="mt-2 text-red-400">
+          {errors.map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      )}
+      <div className="mt-2 flex items-center gap-2">
+        <button
+          onClick={() => setDraft([...draft, {name: '', type: 'text'}])}
+          className="rounded-full px-2 py-0.5 hover:bg-white hover:bg-opacity-10">
+          + Attribute
+        </button>
+        <button
+          onClick={() => setDraft(defaultAttributeSchema)}
+          className="rounded-full px-2 py-0.5 hover:bg-white hover:bg-opacity-10">
+          Defaults
+        </button>
+        <button
+          onClick={onClose}
+          className="ml-auto rounded-full px-2 py-0.5 hover:bg-white hover:bg-opacity-10">
+          Cancel
+        </button>
+        <button
+          onClick={() =>
+            onApply(
+              draft.map((definition) => ({
+                ...definition,
+                name: definition.name.trim(),
+              })),
+            )
+          }
+          disabled={errors.length > 0}
+          className="rounded-full bg-[#3B68FF] px-3 py-0.5 text-white disabled:opacity-50">
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {HeatmapLayer, summarizeDwell, TrackDwell} from './heatmap.tsx';
+
+interface HeatmapPanelProps {
+  visible: boolean;
+  onVisibleChange: (visible: boolean) => void;
+  layer: HeatmapLayer;
+  onLayerChange: (layer: HeatmapLayer) => void;
+  // Categories with accumulated time
+  categories: string[];
+  // Track records, most dwell first
+  dwell: TrackDwell[];
+  onExportPng: () => void;
+  onExportJson: () => void;
+  onReset: () => void;
+}
+
+// Tracks listed in the panel; the export has all of them
+const MAX_LISTED_TRACKS = 10;
+
+function seconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function layerValue(layer: HeatmapLayer) {
+  if (layer.type === 'category') return `category:${layer.category}`;
+  if (layer.type === 'track') return `track:${layer.serial}`;
+  return 'all';
+}
+
+function parseLayerValue(value: string): HeatmapLayer {
+  if (value.startsWith('category:')) {
+    return {type: 'category', category: value.slice('category:'.length)};
+  }
+  if (value.startsWith('track:')) {
+    return {type: 'track', serial: Number(value.slice('track:'.length))};
+  }
+  return {type: 'all'};
+}
+
+export function HeatmapPanel({
+  visible,
+  onVisibleChange,
+  layer,
+  onLayerChange,
+  categories,
+  dwell,
+  onExportPng,
+  onExportJson,
+  onReset,
+}: HeatmapPanelProps) {
+  const listed = dwell.slice(0, MAX_LISTED_TRACKS);
+  // Keep a selected track selectable after it drops out of the list
+  const selectable = listed.concat(
+    dwell.filter(
+      (track) =>
+        layer.type === 'track' &&
+        track.serial === layer.serial &&
+        !listed.includes(track),
+    ),
+  );
+  const buttonClass =
+    'rounded-full px-2 py-0.5 hover:bg-white hover:bg-opacity-10';
+
+  return (
+    <div className="absolute right-4 top-14 z-10 w-80 rounded-lg bg-black bg-opacity-70 p-3 text-xs text-gray-300">
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={visible}
+            onChange={(e: {target: HTMLInputElement}) =>
+              onVisibleChange(e.target.checked)
+            }
+          />
+          Show heatmap
+        </label>
+        <select
+          value={layerValue(layer)}
+          onChange={(e: {target: HTMLSelectElement}) =>
+            onLayerChange(parseLayerValue(e.target.value))
+          }
+          className="w-0 flex-grow rounded bg-black bg-opacity-50 px-1"
+          aria-label="Heatmap layer">
+          <option value="all">All detections</option>
+          {categories.map((category) => (
+            <option key={category} value={`category:${category}`}>
+              {category}
+            </option>
+          ))}
+          {selectable.map((track) => (
+            <option key={track.serial} value={`track:${track.serial}`}>
+              #{track.trackId} {track.category}
+            </option>
+          ))}
+        </select>
+      </div>
+      {dwell.length === 0 ? (
+        <p className="mt-2 text-gray-400">
+          Time is counted while objects or faces are detected.
+        </p>
+      ) : (
+        <>
+          <table className="mt-2 w-full font-mono">
+            <thead className="text-gray-400">
+              <tr>
+                <th className="text-left font-normal">category</th>
+                <th className="text-right font-normal">tracks</th>
+                <th className="text-right font-normal">mean</th>
+                <th className="text-right font-normal">median</th>
+                <th className="text-right font-normal">max</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summarizeDwell(dwell).map((summary) => (
+                <tr key={summary.category}>
+                  <td className="truncate">{summary.category}</td>
+                  <td className="text-right">{summary.tracks}</td>
+                  <td className="text-right">{seconds(summary.meanMs)}</td>
+                  <td className="text-right">{seconds(summary.medianMs)}</td>
+                  <td className="text-right">{seconds(summary.maxMs)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="mt-2 text-gray-400">Longest dwell</div>
+          <ul className="font-mono">
+            {listed.map((track) => (
+              <li key={track.serial} className="flex justify-between gap-2">
+                <span className="truncate">
+                  #{track.trackId} {track.category}
+                  {track.active && ' •'}
+                </span>
+                <span title="Time detected, and grid cells visited">
+                  {seconds(track.dwellMs)} / {track.cellsVisited} cells
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      <div className="mt-2 flex justify-end border-t border-white border-opacity-20 pt-2">
+        <button onClick={onExportPng} className={buttonClass}>
+          Export PNG
+        </button>
+        <button onClick={onExportJson} className={buttonClass}>
+          Export JSON
+        </button>
+        <button onClick={onReset} className={buttonClass}>
+          Reset
+        </button>
+      </div>
+    </div>
+  );
+}
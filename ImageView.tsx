@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Still image view: Gemini spatial understanding (boxes, masks, points and
+ * 3D boxes) on an uploaded or example image. Its state lives in the atoms in
+ * `atoms.tsx`, so it keeps the image and results while the live view is
+ * shown.
+ */
+
+import {Content} from './Content.tsx';
+import {DetectTypeSelector} from './DetectTypeSelector.tsx';
+import {ExampleImages} from './ExampleImages.tsx';
+import {ExtraModeControls} from './ExtraModeControls.tsx';
+import {Prompt} from './Prompt.tsx';
+import {SideControls} from './SideControls.tsx';
+import {TopBar} from './TopBar.tsx';
+
+export function ImageView({onClose}: {onClose: () => void}) {
+  return (
+    <div className="image-view absolute inset-0 z-30 flex flex-col bg-black">
+      <div className="flex grow flex-col overflow-hidden border-b border-[var(--border-color)]">
+        <div className="flex items-center">
+          <button
+            onClick={onClose}
+            className="ml-3 shrink-0 rounded-full px-2 py-0.5 text-xs text-gray-300 hover:bg-white hover:bg-opacity-10">
+            ← Live view
+          </button>
+          <TopBar />
+        </div>
+        <Content />
+        <ExtraModeControls />
+      </div>
+      <div className="flex w-full shrink-0 gap-6 overflow-auto px-5 py-6 lg:items-start">
+        <div className="flex flex-col items-center gap-6 border-r border-[var(--border-color)] pr-5">
+          <ExampleImages />
+          <SideControls />
+        </div>
+        <div className="flex grow flex-row gap-6">
+          <DetectTypeSelector />
+          <Prompt />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {useEffect, useState} from 'react';
+import {LatencyStats, Metrics, MetricsOptions} from './metrics.tsx';
+
+interface PerformanceHudProps {
+  metrics: Metrics;
+  onOptionsChange: (options: MetricsOptions) => void;
+  onExport: () => void;
+}
+
+function formatLatency(stats: LatencyStats) {
+  if (stats.count === 0) return '–';
+  return `${stats.meanMs.toFixed(1)} ms (p95 ${stats.p95Ms.toFixed(1)})`;
+}
+
+export function PerformanceHud({
+  metrics,
+  onOptionsChange,
+  onExport,
+}: PerformanceHudProps) {
+  const [snapshot, setSnapshot] = useState(() => metrics.snapshot());
+  const [options, setOptions] = useState(() => metrics.getOptions());
+
+  useEffect(() => {
+    const interval = setInterval(() => setSnapshot(metrics.snapshot()), 500);
+    return () => clearInterval(interval);
+  }, [metrics]);
+
+  function updateOptions(changes: Partial<MetricsOptions>) {
+    metrics.setOptions(changes);
+    const next = metrics.getOptions();
+    setOptions(next);
+    onOptionsChange(next);
+  }
+
+  const rows: Array<[string, string]> = [
+    ['capture', `${snapshot.captureFps.toFixed(0)} fps`],
+    ['render', `${snapshot.renderFps.toFixed(0)} fps`],
+    ['detect', `${snapshot.detectionFps.toFixed(0)} fps`],
+    ...Object.keys(snapshot.inference).map((backendId): [string, string] => [
+      backendId,
+      formatLatency(snapshot.inference[backendId]),
+    ]),
+    ['dropped', `${snapshot.droppedFrames}`],
+    [
+      'skipped',
+      `${snapshot.skippedFrames} (1 in ${snapshot.scheduler.detectEvery} detected)`,
+    ],
+    ['gemini', formatLatency(snapshot.gemini.roundTrip)],
+    [
+      'queue',
+      `${snapshot.gemini.queueDepth} queued · ${snapshot.gemini.inFlight} in flight${
+        snapshot.gemini.failed ? ` · ${snapshot.gemini.failed} failed` : ''
+      }`,
+    ],
+  ];
+
+  return (
+    <div className="absolute left-4 top-14 z-10 w-72 rounded-lg bg-black bg-opacity-70 p-3 font-mono text-xs text-gray-300">
+      <table className="w-full">
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label}>
+              <td className="pr-2 text-gray-400">{label}</td>
+              <td className="text-right">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="mt-2 flex items-center gap-2 border-t border-white border-opacity-20 pt-2">
+        <label className="flex items-center gap-1">
+          target
+          <input
+            type="number"
+            min={1}
+            max={120}
+            value={options.targetFps}
+            onChange={(e: {target: HTMLInputElement}) => {
+              const targetFps = Number(e.target.value);
+              if (targetFps > 0) updateOptions({targetFps});
+            }}
+            className="w-12 rounded bg-black bg-opacity-50 px-1"
+          />
+          fps
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={options.adaptive}
+            onChange={(e: {target: HTMLInputElement}) =>
+              updateOptions({adaptive: e.target.checked})
+            }
+          />
+          adaptive
+        </label>
+        <button
+          onClick={() => metrics.reset()}
+          className="ml-auto rounded-full px-2 py-0.5 hover:bg-white hover:bg-opacity-10">
+          Reset
+        </button>
+        <button
+          onClick={onExport}
+          className="rounded-full px-2 py-0.5 hover:bg-white hover:bg-opacity-10">
+          Export
+        </button>
+      </div>
+    </div>
+  );
+}
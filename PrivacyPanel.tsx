@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {usePrivacyState} from './hooks.tsx';
+import {
+  AuditEntry,
+  PrivacyGuard,
+  PrivacySettings,
+  REDACTION_MODES,
+  RedactionMode,
+} from './privacy.tsx';
+
+interface PrivacyPanelProps {
+  guard: PrivacyGuard;
+  onSettingsChange: (settings: PrivacySettings) => void;
+  onExportAudit: () => void;
+}
+
+const consentLabels = {
+  unasked: 'Not asked yet this session',
+  pending: 'Waiting for your answer',
+  granted: 'Allowed for this session',
+  denied: 'Declined for this session',
+};
+
+// Audit entries listed in the panel; the export has all of them
+const MAX_LISTED_ENTRIES = 100;
+
+function formatBytes(bytes: number) {
+  return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+}
+
+function auditRow(entry: AuditEntry) {
+  return (
+    <li key={entry.id} className="flex items-center gap-2">
+      {entry.thumbnail ? (
+        <img
+          src={entry.thumbnail}
+          alt=""
+          className="h-8 w-8 flex-shrink-0 rounded object-cover"
+        />
+      ) : (
+        <div className="h-8 w-8 flex-shrink-0 rounded bg-white bg-opacity-10" />
+      )}
+      <div className="min-w-0 flex-grow">
+        <div>
+          {new Date(entry.timestamp).toLocaleTimeString()} ·{' '}
+          {entry.tag ?? 'other'}
+        </div>
+        <div
+          className="truncate text-gray-400"
+          title={`${entry.model} via ${entry.transport}, sha256 ${entry.sha256}`}>
+          {formatBytes(entry.bytes)} · {entry.redaction} ·{' '}
+          {entry.sha256.slice(0, 8)}
+        </div>
+      </div>
+    </li>
+  );
+}
+
+export function PrivacyPanel({
+  guard,
+  onSettingsChange,
+  onExportAudit,
+}: PrivacyPanelProps) {
+  const {settings, consent, audit, sentCount} = usePrivacyState(guard);
+
+  function update(changes: Partial<PrivacySettings>) {
+    guard.setSettings(changes);
+    onSettingsChange(guard.getState().settings);
+  }
+
+  return (
+    <div className="absolute right-4 top-14 z-10 w-80 rounded-lg bg-black bg-opacity-70 p-3 text-xs text-gray-300">
+      <label className="flex items-center justify-between">
+        Local only (never call Gemini)
+        <input
+          type="checkbox"
+          checked={settings.localOnly}
+          onChange={(e: {target: HTMLInputElement}) =>
+            update({localOnly: e.target.checked})
+          }
+        />
+      </label>
+      <label className="mt-1 flex items-center justify-between">
+        Before upload
+        <select
+          value={settings.redaction}
+          onChange={(e: {target: HTMLSelectElement}) =>
+            update({redaction: e.target.value as RedactionMode})
+          }
+          disabled={settings.localOnly}
+          className="rounded bg-black bg-opacity-50 px-1">
+          {REDACTION_MODES.map(({mode, label}) => (
+            <option key={mode} value={mode}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <div className="mt-1 flex items-center justify-between">
+        <span>Consent: {consentLabels[consent]}</span>
+        {(consent === 'granted' || consent === 'denied') && (
+          <button
+            onClick={() => guard.resetConsent()}
+            className="rounded-full px-2 py-0.5 hover:bg-white hover:bg-opacity-10">
+            Ask again
+          </button>
+        )}
+      </div>
+      <div className="mt-2 border-t border-white border-opacity-20 pt-2">
+        <div className="mb-1 flex items-center justify-between">
+          <span>
+            {sentCount} image{sentCount === 1 ? '' : 's'} sent this session
+          </span>
+          <span className="flex gap-1">
+            <button
+              onClick={onExportAudit}
+              disabled={audit.length === 0}
+              className="rounded-full px-2 py-0.5 hover:bg-white hover:bg-opacity-10 disabled:opacity-50">
+              Export
+            </button>
+            <button
+              onClick={() => guard.clearAudit()}
+              disabled={audit.length === 0}
+              className="rounded-full px-2 py-0.5 hover:bg-white hover:bg-opacity-10 disabled:opacity-50">
+              Clear
+            </button>
+          </span>
+        </div>
+        <ul className="flex max-h-64 flex-col gap-1 overflow-y-auto font-mono">
+          {audit.slice(0, MAX_LISTED_ENTRIES).map(auditRow)}
+        </ul>
+        {audit.length > MAX_LISTED_ENTRIES && (
+          <div className="mt-1 text-gray-400">
+            {audit.length - MAX_LISTED_ENTRIES} older images are in the export
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Asks once per session before the first image is sent to Gemini. Renders
+ * nothing unless a request is waiting for the answer.
+ */
+export function PrivacyConsentDialog({guard}: {guard: PrivacyGuard}) {
+  const {consent, settings} = usePrivacyState(guard);
+  if (consent !== 'pending') return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60">
+      <div className="max-w-sm rounded-lg bg-gray-900 p-4 text-sm text-gray-200">
+        <div className="mb-2 text-base text-white">Send images to Gemini?</div>
+        <p className="mb-2">
+          Analysis sends images from your camera or file to Google's Gemini API.
+          Detection and tracking stay on this device either way.
+        </p>
+        <p className="mb-3 text-gray-400">
+          {settings.redaction === 'none'
+            ? 'Images are sent without redaction.'
+            : `Images are redacted first (${
+                REDACTION_MODES.find(({mode}) => mode === settings.redaction)
+                  ?.label
+              }).`}{' '}
+          Every image sent is listed under Privacy. You can change this for the
+          session there.
+        </p>
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => guard.respond(false)}
+            className="rounded-full px-3 py-1 hover:bg-white hover:bg-opacity-10">
+            Don't send
+          </button>
+          <button
+            onClick={() => guard.respond(true)}
+            className="rounded-full bg-[#3B68FF] px-3 py-1 text-white">
+            Allow for this session
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -17,7 +17,6 @@
 // See the License for the specific language governing permissions and
 // limitations under the License.
 
-import {GoogleGenAI} from '@google/genai';
 import {useAtom} from 'jotai';
 import getStroke from 'perfect-freehand';
 import {useEffect, useRef, useState} from 'react';
@@ -38,11 +37,42 @@ import {
   VideoRefAtom,
 } from './atoms.tsx';
 import {lineOptions} from './consts.tsx';
+import {
+  GeminiClient,
+  GeminiResponse,
+  getGeminiClient,
+  supportsStructuredOutput,
+} from './gemini.tsx';
+import {usePrivacyState} from './hooks.tsx';
+import {
+  findFaces,
+  getPrivacyGuard,
+  needsRegionOfInterest,
+  redactCanvas,
+} from './privacy.tsx';
+import {getRequestScheduler, isAbortError} from './requestScheduler.tsx';
+import {
+  Box2DItem,
+  Box3DItem,
+  MaskItem,
+  parseSpatialResponse,
+  PointItem,
+  SpatialIssue,
+  SpatialKind,
+  spatialResponseSchema,
+} from './spatial.tsx';
 import {DetectTypes} from './Types.tsx';
 import {getSvgPathFromStroke, loadImage} from './utils.tsx';
 
+const spatialKinds: Record<DetectTypes, SpatialKind> = {
+  '2D bounding boxes': '2d',
+  'Segmentation masks': 'masks',
+  Points: 'points',
+  '3D bounding boxes': '3d',
+};
+
 export function Prompt() {
-  const ai = useRef<GoogleGenAI | null>(null);
+  const ai = useRef<GeminiClient | null>(null);
   const [initError, setInitError] = useState<string | null>(null);
   const [temperature, setTemperature] = useAtom(TemperatureAtom);
   const [, setBoundingBoxes2D] = useAtom(BoundingBoxes2DAtom);
@@ -64,10 +94,17 @@ export function Prompt() {
   const [prompts, setPrompts] = useAtom(PromptsAtom);
   const [customPrompts, setCustomPrompts] = useAtom(CustomPromptsAtom);
   const [isLoading, setIsLoading] = useAtom(IsLoadingAtom);
+  // Problems with the last response, shown under the prompt
+  const [parseIssues, setParseIssues] = useState<SpatialIssue[]>([]);
+  const privacyGuard = getPrivacyGuard();
+  const {settings: privacySettings} = usePrivacyState(privacyGuard);
+  // The last send was held back because the redaction setting needs a
+  // region of interest and nothing was drawn
+  const [regionMissing, setRegionMissing] = useState(false);
 
   useEffect(() => {
     try {
-      ai.current = new GoogleGenAI({apiKey: process.env.API_KEY});
+      ai.current = getGeminiClient();
       setInitError(null);
     } catch (e) {
       console.error('Failed to initialize GoogleGenAI in Prompt', e);
@@ -83,8 +120,33 @@ export function Prompt() {
     }
   }, []);
 
+  useEffect(() => {
+    setRegionMissing(false);
+  }, [lines, privacySettings.redaction]);
+
+  // Results for the previous detection type are no longer wanted
+  useEffect(() => {
+    getRequestScheduler().cancel('spatial');
+  }, [detectType]);
+
   const is2d = detectType === '2D bounding boxes';
 
+  // The bounding box of everything drawn on the image, in canvas pixels
+  function strokesBounds(width: number, height: number) {
+    const points = lines.flatMap((line) => line[0]);
+    if (points.length === 0) return null;
+    const xs = points.map(([x]) => x * width);
+    const ys = points.map(([, y]) => y * height);
+    const originX = Math.max(0, Math.min(...xs));
+    const originY = Math.max(0, Math.min(...ys));
+    return {
+      originX,
+      originY,
+      width: Math.min(width, Math.max(...xs)) - originX,
+      height: Math.min(height, Math.max(...ys)) - originY,
+    };
+  }
+
   const get2dPrompt = () =>
     `Detect ${targetPrompt}, with no more than 20 items. Output a json list where each entry contains the 2D bounding box in "box_2d" and ${
       labelPrompt || 'a text label'
@@ -122,7 +184,12 @@ export function Prompt() {
     return `${p0} ${p1}${p2}`;
   };
 
-  async function handleSend() {
+  /**
+   * Send the image and prompt to Gemini.
+   * @param redactWholeImage The user agreed to redact the whole image when
+   *     the redaction setting needs a region of interest and none is drawn
+   */
+  async function handleSend(redactWholeImage = false) {
     if (!ai.current) {
       if (!initError) {
         setInitError(
@@ -132,6 +199,7 @@ export function Prompt() {
       return;
     }
     setIsLoading(true);
+    setParseIssues([]);
     try {
       let activeDataURL;
       const maxSize = 640;
@@ -159,9 +227,21 @@ export function Prompt() {
         const scale = Math.min(maxSize / image.width, maxSize / image.height);
         copyCanvas.width = image.width * scale;
         copyCanvas.height = image.height * scale;
-        console.log(copyCanvas);
         ctx.drawImage(image, 0, 0, image.width * scale, image.height * scale);
       }
+      // Redact before the strokes are drawn, so they stay visible. The
+      // strokes also mark the region of interest for the background modes.
+      const redaction = privacySettings.redaction;
+      const roi = strokesBounds(copyCanvas.width, copyCanvas.height);
+      if (needsRegionOfInterest(redaction) && !roi && !redactWholeImage) {
+        setRegionMissing(true);
+        return;
+      }
+      setRegionMissing(false);
+      redactCanvas(copyCanvas, redaction, {
+        faces: redaction === 'blur_faces' ? await findFaces(copyCanvas) : [],
+        roi,
+      });
       activeDataURL = copyCanvas.toDataURL('image/png');
 
       if (lines.length > 0) {
@@ -185,17 +265,18 @@ export function Prompt() {
       }
 
       setHoverEntered(false);
-      const config: {
-        temperature: number;
-        thinkingConfig?: {thinkingBudget: number};
-      } = {
+      const config = {
         temperature,
+        // Disable thinking for 2.5 Flash, as recommended for spatial
+        // understanding tasks.
+        thinkingBudget: 0,
+        // Constrain the output to the expected entries where the model
+        // supports it; the parser still repairs whatever comes back.
+        ...(supportsStructuredOutput(ai.current.model) && {
+          responseMimeType: 'application/json',
+          responseSchema: spatialResponseSchema(spatialKinds[detectType]),
+        }),
       };
-      // Fix: Use 'gemini-2.5-flash' model name as per coding guidelines.
-      const model = 'gemini-2.5-flash';
-      // Disable thinking for 2.5 Flash, as recommended for spatial
-      // understanding tasks.
-      config['thinkingConfig'] = {thinkingBudget: 0};
 
       let textPromptToSend = '';
       if (is2d) {
@@ -205,115 +286,102 @@ export function Prompt() {
       } else {
         textPromptToSend = getGenericPrompt(detectType);
       }
+      // A new send supersedes any earlier one still waiting or retrying
+      const scheduler = getRequestScheduler();
+      scheduler.cancel('spatial');
+      const client = ai.current;
       const response = (
-        await ai.current.models.generateContent({
-          model,
-          contents: {
-            parts: [
-              {
-                inlineData: {
-                  data: activeDataURL.replace('data:image/png;base64,', ''),
-                  mimeType: 'image/png',
+        await scheduler.schedule<GeminiResponse>(
+          (signal) =>
+            client.generate({
+              parts: [
+                {
+                  inlineData: {
+                    data: activeDataURL.replace('data:image/png;base64,', ''),
+                    mimeType: 'image/png',
+                  },
                 },
-              },
-              {text: textPromptToSend},
-            ],
-          },
-          config,
-        })
+                {text: textPromptToSend},
+              ],
+              config,
+              tag: detectType,
+              signal,
+            }),
+          {group: 'spatial'},
+        )
       ).text;
 
-      let parsedResponseText = response;
-      if (parsedResponseText.includes('```json')) {
-        parsedResponseText =
-          parsedResponseText.split('```json')[1].split('```')[0];
-      }
-      const parsedResponse = JSON.parse(parsedResponseText);
-      if (detectType === '2D bounding boxes') {
-        const formattedBoxes = parsedResponse.map(
-          (box: {box_2d: [number, number, number, number]; label: string}) => {
-            const [ymin, xmin, ymax, xmax] = box.box_2d;
-            return {
-              x: xmin / 1000,
-              y: ymin / 1000,
-              width: (xmax - xmin) / 1000,
-              height: (ymax - ymin) / 1000,
-              label: box.label,
-            };
-          },
-        );
+      const kind = spatialKinds[detectType];
+      const {items, issues} = parseSpatialResponse(kind, response);
+      setParseIssues(issues);
+      if (kind === '2d') {
+        const formattedBoxes = (items as Box2DItem[]).map((box) => {
+          const [ymin, xmin, ymax, xmax] = box.box_2d;
+          return {
+            x: xmin / 1000,
+            y: ymin / 1000,
+            width: (xmax - xmin) / 1000,
+            height: (ymax - ymin) / 1000,
+            label: box.label,
+          };
+        });
         setHoverEntered(false);
         setBoundingBoxes2D(formattedBoxes);
-      } else if (detectType === 'Points') {
-        const formattedPoints = parsedResponse.map(
-          (point: {point: [number, number]; label: string}) => {
-            return {
-              point: {
-                x: point.point[1] / 1000,
-                y: point.point[0] / 1000,
-              },
-              label: point.label,
-            };
-          },
-        );
+      } else if (kind === 'points') {
+        const formattedPoints = (items as PointItem[]).map((point) => {
+          return {
+            point: {
+              x: point.point[1] / 1000,
+              y: point.point[0] / 1000,
+            },
+            label: point.label,
+          };
+        });
         setPoints(formattedPoints);
-      } else if (detectType === 'Segmentation masks') {
-        const formattedBoxes = parsedResponse.map(
-          (box: {
-            box_2d: [number, number, number, number];
-            label: string;
-            mask: string;
-          }) => {
-            const [ymin, xmin, ymax, xmax] = box.box_2d;
-            return {
-              x: xmin / 1000,
-              y: ymin / 1000,
-              width: (xmax - xmin) / 1000,
-              height: (ymax - ymin) / 1000,
-              label: box.label,
-              imageData: box.mask,
-            };
-          },
-        );
+      } else if (kind === 'masks') {
+        const formattedBoxes = (items as MaskItem[]).map((box) => {
+          const [ymin, xmin, ymax, xmax] = box.box_2d;
+          return {
+            x: xmin / 1000,
+            y: ymin / 1000,
+            width: (xmax - xmin) / 1000,
+            height: (ymax - ymin) / 1000,
+            label: box.label,
+            imageData: box.mask,
+          };
+        });
         setHoverEntered(false);
         // sort largest to smallest
         const sortedBoxes = formattedBoxes.sort(
-          (a: any, b: any) => b.width * b.height - a.width * a.height,
+          (a, b) => b.width * b.height - a.width * a.height,
         );
         setBoundingBoxMasks(sortedBoxes);
       } else {
-        const formattedBoxes = parsedResponse.map(
-          (box: {
-            box_3d: [
-              number,
-              number,
-              number,
-              number,
-              number,
-              number,
-              number,
-              number,
-              number,
-            ];
-            label: string;
-          }) => {
-            const center = box.box_3d.slice(0, 3);
-            const size = box.box_3d.slice(3, 6);
-            const rpy = box.box_3d
-              .slice(6)
-              .map((x: number) => (x * Math.PI) / 180);
-            return {
-              center,
-              size,
-              rpy,
-              label: box.label,
-            };
-          },
-        );
+        const formattedBoxes = (items as Box3DItem[]).map((box) => {
+          const center = box.box_3d.slice(0, 3);
+          const size = box.box_3d.slice(3, 6);
+          const rpy = box.box_3d
+            .slice(6)
+            .map((x: number) => (x * Math.PI) / 180);
+          return {
+            center,
+            size,
+            rpy,
+            label: box.label,
+          };
+        });
         setBoundingBoxes3D(formattedBoxes);
       }
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error('Error generating content:', e);
+      setParseIssues([
+        {
+          index: null,
+          message: `Request failed: ${e instanceof Error ? e.message : e}`,
+          repaired: false,
+        },
+      ]);
     } finally {
       setIsLoading(false);
     }
@@ -326,6 +394,22 @@ export function Prompt() {
           {initError}
         </div>
       )}
+      {privacySettings.localOnly && (
+        <div className="p-2 text-sm bg-[var(--input-color)] rounded-md text-center">
+          Local-only mode is on, so no images are sent to Gemini.
+        </div>
+      )}
+      {regionMissing && (
+        <div className="p-2 text-sm bg-[var(--input-color)] rounded-md flex flex-col items-center gap-2 text-center">
+          The redaction setting keeps only a region of the image. Draw around
+          the region to keep, then send again.
+          <button
+            onClick={() => handleSend(true)}
+            disabled={isLoading || !!initError}>
+            Redact the whole image and send
+          </button>
+        </div>
+      )}
       <div className="flex justify-between items-center">
         <div className="uppercase">
           Prompt:{' '}
@@ -443,11 +527,25 @@ export function Prompt() {
           </div>
         )}
       </div>
+      {parseIssues.length > 0 && (
+        <ul className="p-2 text-sm bg-[var(--input-color)] rounded-md">
+          {parseIssues.map((issue, i) => (
+            <li
+              key={i}
+              className={issue.repaired ? 'text-yellow-500' : 'text-red-500'}>
+              {issue.index === null ? 'Response' : `Item ${issue.index + 1}`}:{' '}
+              {issue.message}
+              {issue.index !== null &&
+                (issue.repaired ? ' (fixed)' : ' (skipped)')}
+            </li>
+          ))}
+        </ul>
+      )}
       <div className="flex justify-between gap-3">
         <button
           className={`bg-[#3B68FF] px-12 !text-white !border-none flex items-center justify-center ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
-          onClick={handleSend}
-          disabled={isLoading || !!initError}>
+          onClick={() => handleSend()}
+          disabled={isLoading || !!initError || privacySettings.localOnly}>
           {isLoading ? (
             <>
               <svg
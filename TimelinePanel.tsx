@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {useState} from 'react';
+import {
+  EventBus,
+  SESSION_EVENT_KINDS,
+  SessionEvent,
+  SessionEventKind,
+} from './events.tsx';
+import {useSessionEvents} from './hooks.tsx';
+
+interface TimelinePanelProps {
+  bus: EventBus;
+  onExportJsonLines: () => void;
+  onExportCsv: () => void;
+}
+
+// Events listed in the panel; the export has all of them
+const MAX_LISTED_EVENTS = 200;
+
+function eventRow(event: SessionEvent) {
+  return (
+    <li
+      key={event.id}
+      className={`truncate ${event.kind === 'error' ? 'text-red-400' : ''}`}
+      title={event.message}>
+      <span className="text-gray-400">
+        {new Date(event.at).toLocaleTimeString()}
+      </span>{' '}
+      {event.kind} {event.message}
+    </li>
+  );
+}
+
+/**
+ * Collapsible list of the session's events, newest first.
+ */
+export function TimelinePanel({
+  bus,
+  onExportJsonLines,
+  onExportCsv,
+}: TimelinePanelProps) {
+  const events = useSessionEvents(bus);
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const [kind, setKind] = useState<SessionEventKind | 'all'>('all');
+
+  const listed: SessionEvent[] = [];
+  for (let i = events.length - 1; i >= 0; i--) {
+    if (listed.length === MAX_LISTED_EVENTS) break;
+    if (kind === 'all' || events[i].kind === kind) listed.push(events[i]);
+  }
+  const buttonClass =
+    'rounded-full px-2 py-0.5 hover:bg-white hover:bg-opacity-10 disabled:opacity-50';
+
+  return (
+    <div className="absolute bottom-5 left-4 z-10 w-80 rounded-lg bg-black bg-opacity-70 p-2 text-xs text-gray-300">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex w-full items-center justify-between px-1"
+        aria-expanded={expanded}>
+        <span>Timeline ({events.length})</span>
+        <span>{expanded ? '▾' : '▸'}</span>
+      </button>
+      {expanded && (
+        <>
+          <select
+            value={kind}
+            onChange={(e: {target: HTMLSelectElement}) =>
+              setKind(e.target.value as SessionEventKind | 'all')
+            }
+            className="mt-2 rounded bg-black bg-opacity-50 px-1"
+            aria-label="Event kind">
+            <option value="all">all kinds</option>
+            {SESSION_EVENT_KINDS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+          {listed.length === 0 ? (
+            <p className="mt-2 text-gray-400">Nothing recorded yet.</p>
+          ) : (
+            <ul className="mt-2 max-h-64 overflow-y-auto font-mono">
+              {listed.map(eventRow)}
+            </ul>
+          )}
+          <div className="mt-2 flex justify-end border-t border-white border-opacity-20 pt-2">
+            <button
+              onClick={onExportJsonLines}
+              disabled={events.length === 0}
+              className={buttonClass}>
+              Export JSONL
+            </button>
+            <button
+              onClick={onExportCsv}
+              disabled={events.length === 0}
+              className={buttonClass}>
+              Export CSV
+            </button>
+            <button
+              onClick={() => bus.clear()}
+              disabled={events.length === 0}
+              className={buttonClass}>
+              Clear
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {colors} from './consts.tsx';
+import {DirectionCounts, Tripwire} from './tripwires.tsx';
+import {Point} from './viewport.tsx';
+
+interface TripwirePanelProps {
+  tripwires: Tripwire[];
+  onTripwiresChange: (tripwires: Tripwire[]) => void;
+  // Counts by tripwire id, then category
+  counts: Map<string, Record<string, DirectionCounts>>;
+  // Endpoints placed so far, or null when not drawing
+  draft: Point[] | null;
+  onStartDrawing: () => void;
+  onCancelDrawing: () => void;
+  hysteresis: number;
+  onHysteresisChange: (hysteresis: number) => void;
+  bucketMs: number;
+  onBucketMsChange: (bucketMs: number) => void;
+  onResetCounts: () => void;
+  onExport: () => void;
+}
+
+const bucketOptions = [
+  {ms: 60000, label: '1 min'},
+  {ms: 300000, label: '5 min'},
+  {ms: 900000, label: '15 min'},
+  {ms: 3600000, label: '1 hour'},
+];
+
+export function TripwirePanel({
+  tripwires,
+  onTripwiresChange,
+  counts,
+  draft,
+  onStartDrawing,
+  onCancelDrawing,
+  hysteresis,
+  onHysteresisChange,
+  bucketMs,
+  onBucketMsChange,
+  onResetCounts,
+  onExport,
+}: TripwirePanelProps) {
+  function rename(id: string, name: string) {
+    onTripwiresChange(
+      tripwires.map((tripwire) =>
+        tripwire.id === id ? {...tripwire, name} : tripwire,
+      ),
+    );
+  }
+
+  const buttonClass =
+    'rounded-full px-2 py-0.5 hover:bg-white hover:bg-opacity-10 disabled:opacity-50';
+
+  return (
+    <div className="absolute right-4 top-14 z-10 w-80 rounded-lg bg-black bg-opacity-70 p-3 text-xs text-gray-300">
+      {draft === null ? (
+        <button
+          onClick={onStartDrawing}
+          className="rounded-full bg-[#3B68FF] px-3 py-0.5 text-white">
+          Draw line
+        </button>
+      ) : (
+        <div className="flex items-center justify-between">
+          <span>
+            Click the {draft.length === 0 ? 'start' : 'end'} of the line. Esc
+            cancels.
+          </span>
+          <button onClick={onCancelDrawing} className={buttonClass}>
+            Cancel
+          </button>
+        </div>
+      )}
+      {tripwires.length > 0 && (
+        <ul className="mt-2 flex flex-col gap-2">
+          {tripwires.map((tripwire, index) => {
+            const byCategory = counts.get(tripwire.id) ?? {};
+            return (
+              <li key={tripwire.id}>
+                <div className="flex items-center gap-1">
+                  <span
+                    className="h-2 w-2 flex-shrink-0 rounded-full"
+                    style={{backgroundColor: colors[index % colors.length]}}
+                  />
+                  <input
+                    value={tripwire.name}
+                    onChange={(e: {target: HTMLInputElement}) =>
+                      rename(tripwire.id, e.target.value)
+                    }
+                    className="w-0 flex-grow rounded bg-black bg-opacity-50 px-1"
+                    aria-label="Line name"
+                  />
+                  <button
+                    onClick={() =>
+                      onTripwiresChange(
+                        tripwires.filter((other) => other.id !== tripwire.id),
+                      )
+                    }
+                    className={buttonClass}
+                    aria-label="Delete line">
+                    ✕
+                  </button>
+                </div>
+                <table className="ml-3 mt-1 font-mono">
+                  <tbody>
+                    {Object.keys(byCategory).map((category) => (
+                      <tr key={category}>
+                        <td className="pr-2 text-gray-400">{category}</td>
+                        <td className="pr-2" title="Crossed along the arrow">
+                          → {byCategory[category].forward}
+                        </td>
+                        <td title="Crossed against the arrow">
+                          ← {byCategory[category].backward}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      <div className="mt-2 flex flex-col gap-1 border-t border-white border-opacity-20 pt-2">
+        <label className="flex items-center justify-between">
+          ignore jitter within
+          <input
+            type="range"
+            min={0}
+            max={0.1}
+            step={0.005}
+            value={hysteresis}
+            onChange={(e: {target: HTMLInputElement}) =>
+              onHysteresisChange(Number(e.target.value))
+            }
+            title="Half-width of the band around each line, relative to the frame diagonal"
+          />
+        </label>
+        <div className="flex items-center justify-between">
+          <select
+            value={bucketMs}
+            onChange={(e: {target: HTMLSelectElement}) =>
+              onBucketMsChange(Number(e.target.value))
+            }
+            className="rounded bg-black bg-opacity-50 px-1"
+            aria-label="Export bucket size">
+            {bucketOptions.map(({ms, label}) => (
+              <option key={ms} value={ms}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <span>
+            <button onClick={onExport} className={buttonClass}>
+              Export CSV
+            </button>
+            <button onClick={onResetCounts} className={buttonClass}>
+              Reset counts
+            </button>
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
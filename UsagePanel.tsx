@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {useEffect, useState} from 'react';
+import {UsageBudgets, UsageTotals, UsageTracker} from './usage.tsx';
+
+interface UsagePanelProps {
+  tracker: UsageTracker;
+  onBudgetsChange: (budgets: UsageBudgets) => void;
+}
+
+function formatCost(totals: UsageTotals) {
+  if (totals.unpricedRequests === 0) return `$${totals.costUsd.toFixed(4)}`;
+  if (totals.unpricedRequests === totals.requests) return 'unknown';
+  // A lower bound: some requests have no price
+  return `≥$${totals.costUsd.toFixed(4)}`;
+}
+
+function formatTokens(tokens: number) {
+  return tokens >= 10000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+}
+
+function totalsRow(label: string, totals: UsageTotals) {
+  return (
+    <tr key={label}>
+      <td className="pr-2 text-gray-400">{label}</td>
+      <td className="text-right">{totals.requests}</td>
+      <td className="text-right">{formatTokens(totals.promptTokens)}</td>
+      <td className="text-right">
+        {formatTokens(totals.responseTokens + totals.thoughtsTokens)}
+      </td>
+      <td className="text-right">{formatCost(totals)}</td>
+    </tr>
+  );
+}
+
+const budgetFields: Array<{key: keyof UsageBudgets; label: string}> = [
+  {key: 'tokensPerMinute', label: 'tokens / min'},
+  {key: 'tokensPerSession', label: 'tokens / session'},
+  {key: 'costPerSession', label: '$ / session'},
+];
+
+export function UsagePanel({tracker, onBudgetsChange}: UsagePanelProps) {
+  const [snapshot, setSnapshot] = useState(() => tracker.snapshot());
+
+  useEffect(() => {
+    const update = () => setSnapshot(tracker.snapshot());
+    const unsubscribe = tracker.subscribe(update);
+    // The rolling minute changes without new events
+    const interval = setInterval(update, 1000);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [tracker]);
+
+  function updateBudget(key: keyof UsageBudgets, value: number) {
+    if (!(value >= 0)) return;
+    tracker.setBudgets({[key]: value});
+    onBudgetsChange(tracker.getBudgets());
+  }
+
+  return (
+    <div className="absolute right-4 top-14 z-10 w-80 rounded-lg bg-black bg-opacity-70 p-3 text-xs text-gray-300">
+      <table className="w-full font-mono">
+        <thead>
+          <tr className="text-gray-400">
+            <th className="text-left font-normal">mode</th>
+            <th className="text-right font-normal">req</th>
+            <th className="text-right font-normal">in</th>
+            <th className="text-right font-normal">out</th>
+            <th className="text-right font-normal">cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {Object.keys(snapshot.byMode).map((mode) =>
+            totalsRow(mode, snapshot.byMode[mode]),
+          )}
+          {totalsRow('session', snapshot.session)}
+        </tbody>
+      </table>
+      <div className="mt-1 text-gray-400">
+        {formatTokens(snapshot.lastMinuteTokens)} tokens in the last minute
+      </div>
+      {snapshot.session.unpricedRequests > 0 && (
+        <div className="mt-1 text-yellow-300">
+          Cost unknown for {snapshot.session.unpricedRequests} requests to a
+          model without pricing.
+          {snapshot.budgets.costPerSession > 0 &&
+            ' The $ / session budget cannot be checked, so analysis is paused.'}
+        </div>
+      )}
+      <div className="mt-2 flex flex-col gap-1 border-t border-white border-opacity-20 pt-2">
+        {budgetFields.map(({key, label}) => (
+          <label key={key} className="flex items-center justify-between">
+            {label}
+            <input
+              type="number"
+              min={0}
+              step={key === 'costPerSession' ? 0.01 : 1000}
+              value={snapshot.budgets[key]}
+              onChange={(e: {target: HTMLInputElement}) =>
+                updateBudget(key, Number(e.target.value))
+              }
+              className="w-24 rounded bg-black bg-opacity-50 px-1 text-right"
+              title="0 means no limit"
+            />
+          </label>
+        ))}
+        <button
+          onClick={() => tracker.resetSession()}
+          className="self-end rounded-full px-2 py-0.5 hover:bg-white hover:bg-opacity-10">
+          New session
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {colors} from './consts.tsx';
+import {Point} from './viewport.tsx';
+import {Zone, ZoneEvent} from './zones.tsx';
+
+export interface RecentZoneEvent {
+  // Date.now() when the event was reported
+  at: number;
+  event: ZoneEvent;
+}
+
+interface ZonePanelProps {
+  zones: Zone[];
+  onZonesChange: (zones: Zone[]) => void;
+  // Track ids inside each zone, by zone id
+  occupancy: Map<string, number[]>;
+  // Vertices placed so far, or null when not drawing
+  draft: Point[] | null;
+  onStartDrawing: () => void;
+  onFinishDrawing: () => void;
+  onCancelDrawing: () => void;
+  dwellMs: number;
+  onDwellMsChange: (dwellMs: number) => void;
+  // Newest first
+  events: RecentZoneEvent[];
+}
+
+function eventRow({at, event}: RecentZoneEvent, index: number) {
+  return (
+    <li key={index} className="truncate">
+      {new Date(at).toLocaleTimeString()} {event.type} {event.zoneName} #
+      {event.trackId} {event.category}
+      {event.type !== 'enter' && ` after ${(event.dwellMs / 1000).toFixed(1)}s`}
+    </li>
+  );
+}
+
+export function ZonePanel({
+  zones,
+  onZonesChange,
+  occupancy,
+  draft,
+  onStartDrawing,
+  onFinishDrawing,
+  onCancelDrawing,
+  dwellMs,
+  onDwellMsChange,
+  events,
+}: ZonePanelProps) {
+  function update(id: string, changes: Partial<Zone>) {
+    onZonesChange(
+      zones.map((zone) => (zone.id === id ? {...zone, ...changes} : zone)),
+    );
+  }
+
+  const inputClass = 'rounded bg-black bg-opacity-50 px-1';
+
+  return (
+    <div className="absolute right-4 top-14 z-10 w-80 rounded-lg bg-black bg-opacity-70 p-3 text-xs text-gray-300">
+      {draft === null ? (
+        <button
+          onClick={onStartDrawing}
+          className="rounded-full bg-[#3B68FF] px-3 py-0.5 text-white">
+          Draw zone
+        </button>
+      ) : (
+        <div>
+          <div className="mb-1">
+            Click to place corners; click the first corner or double-click to
+            close the zone. Esc cancels.
+          </div>
+          <div className="flex gap-1">
+            <button
+              onClick={onFinishDrawing}
+              disabled={draft.length < 3}
+              className="rounded-full bg-[#3B68FF] px-3 py-0.5 text-white disabled:opacity-50">
+              Finish ({draft.length} corners)
+            </button>
+            <button
+              onClick={onCancelDrawing}
+              className="rounded-full px-2 py-0.5 hover:bg-white hover:bg-opacity-10">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+      {zones.length > 0 && (
+        <ul className="mt-2 flex flex-col gap-1">
+          {zones.map((zone, index) => (
+            <li key={zone.id} className="flex items-center gap-1">
+              <span
+                className="h-2 w-2 flex-shrink-0 rounded-full"
+                style={{backgroundColor: colors[index % colors.length]}}
+              />
+              <input
+                value={zone.name}
+                onChange={(e: {target: HTMLInputElement}) =>
+                  update(zone.id, {name: e.target.value})
+                }
+                className={`${inputClass} w-20`}
+                aria-label="Zone name"
+              />
+              <input
+                value={zone.categories.join(', ')}
+                onChange={(e: {target: HTMLInputElement}) =>
+                  update(zone.id, {
+                    categories: e.target.value
+                      .toLowerCase()
+                      .split(',')
+                      .map((category) => category.trim())
+                      .filter(Boolean),
+                  })
+                }
+                placeholder="all categories"
+                className={`${inputClass} w-0 flex-grow`}
+                aria-label="Categories that count in this zone"
+              />
+              <span
+                className="w-4 text-right"
+                title="Tracked objects inside now">
+                {occupancy.get(zone.id)?.length ?? 0}
+              </span>
+              <button
+                onClick={() =>
+                  onZonesChange(zones.filter((other) => other.id !== zone.id))
+                }
+                className="rounded-full px-1 hover:bg-white hover:bg-opacity-10"
+                aria-label="Delete zone">
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <label className="mt-2 flex items-center justify-between">
+        dwell event after
+        <span>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={dwellMs / 1000}
+            onChange={(e: {target: HTMLInputElement}) =>
+              onDwellMsChange(Math.max(0, Number(e.target.value)) * 1000)
+            }
+            className={`${inputClass} w-12 text-right`}
+          />{' '}
+          s
+        </span>
+      </label>
+      {events.length > 0 && (
+        <ul className="mt-2 max-h-40 overflow-y-auto border-t border-white border-opacity-20 pt-2 font-mono">
+          {events.map(eventRow)}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,282 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Per-track cache of Gemini person analysis.
+ *
+ * A face is analyzed once when its track appears and the result is reused
+ * for as long as the track lives. It is only sent again when the analysis
+ * prompt or attribute schema changes, the result is older than the
+ * staleness limit, or the face looks noticeably different from when it was
+ * analyzed (turned around, took off glasses, or the tracker swapped two
+ * people). Appearance is compared through a tiny grayscale thumbnail of the
+ * face.
+ *
+ * A face whose analysis failed is retried with exponential backoff. If the
+ * request cannot succeed as it is, it is not sent again until the face
+ * looks different or the prompt changes.
+ */
+
+import {PersonAttributes} from './attributes.tsx';
+import {BoundingBox, Track} from './tracker.tsx';
+
+// Thumbnail edge length, in pixels, for appearance signatures
+const SIGNATURE_SIZE = 8;
+// Wait before retrying a failed analysis, doubled with each failure in a row
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 120000;
+
+export interface AnalysisCacheOptions {
+  // Re-analyze results older than this; 0 never expires them
+  staleAfterMs: number;
+  // Re-analyze when the appearance distance (0-1) exceeds this; 0 disables
+  // the appearance check
+  appearanceThreshold: number;
+}
+
+export const defaultAnalysisCacheOptions: AnalysisCacheOptions = {
+  staleAfterMs: 60000,
+  appearanceThreshold: 0.12,
+};
+
+export type AnalysisReason = 'new' | 'prompt' | 'stale' | 'appearance';
+
+export interface AnalysisEntry {
+  trackId: number;
+  attributes: PersonAttributes;
+  // Attributes the response left out or got wrong
+  errors: string[];
+  // The prompt and attribute schema the result was produced with
+  prompt: string;
+  // Date.now() when the result was requested
+  analyzedAt: number;
+  bbox: BoundingBox;
+  signature: Float32Array | null;
+}
+
+interface AnalysisFailure {
+  // Failures in a row with the same prompt and appearance
+  count: number;
+  // Date.now() before which the face is not sent again; Infinity until the
+  // prompt or the face's appearance changes
+  retryAt: number;
+  prompt: string;
+  signature: Float32Array | null;
+}
+
+export interface DueAnalysis {
+  track: Track;
+  reason: AnalysisReason;
+  // Appearance at the time of the check, stored with the result
+  signature: Float32Array | null;
+}
+
+export interface AnalysisCache {
+  get(trackId: number): AnalysisEntry | undefined;
+  entries(): AnalysisEntry[];
+  /**
+   * The tracks whose analysis is missing or out of date.
+   * @param tracks Tracks detected in the current frame
+   * @param prompt The current analysis prompt and attribute schema
+   * @param image The frame the tracks were detected in
+   * @param now Date.now()
+   */
+  due(
+    tracks: Track[],
+    prompt: string,
+    image: CanvasImageSource,
+    now: number,
+  ): DueAnalysis[];
+  store(entry: AnalysisEntry): void;
+  /**
+   * Record a failed analysis, so the track is held back for a while.
+   * @param trackId The track that was analyzed
+   * @param prompt The analysis prompt and attribute schema that were sent
+   * @param signature The track's appearance when it was sent
+   * @param retryable Whether the same request may succeed later
+   * @param now Date.now()
+   */
+  fail(
+    trackId: number,
+    prompt: string,
+    signature: Float32Array | null,
+    retryable: boolean,
+    now: number,
+  ): void;
+  // Forget tracks that no longer exist
+  retain(tracks: Track[]): void;
+  clear(): void;
+  getOptions(): AnalysisCacheOptions;
+  setOptions(options: Partial<AnalysisCacheOptions>): void;
+}
+
+let signatureCanvas: OffscreenCanvas | null = null;
+
+/**
+ * A brightness-normalized grayscale thumbnail of a region, so that
+ * exposure changes alone do not count as a change of appearance.
+ * @param image The frame
+ * @param box The region, in frame pixels
+ */
+export function appearanceSignature(
+  image: CanvasImageSource,
+  box: BoundingBox,
+): Float32Array | null {
+  if (box.width < 1 || box.height < 1) return null;
+  signatureCanvas ??= new OffscreenCanvas(SIGNATURE_SIZE, SIGNATURE_SIZE);
+  const ctx = signatureCanvas.getContext('2d', {willReadFrequently: true})!;
+  ctx.drawImage(
+    image,
+    box.originX,
+    box.originY,
+    box.width,
+    box.height,
+    0,
+    0,
+    SIGNATURE_SIZE,
+    SIGNATURE_SIZE,
+  );
+  const {data} = ctx.getImageData(0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+  const signature = new Float32Array(SIGNATURE_SIZE * SIGNATURE_SIZE);
+  let sum = 0;
+  for (let i = 0; i < signature.length; i++) {
+    const gray =
+      (0.299 * data[i * 4] +
+        0.587 * data[i * 4 + 1] +
+        0.114 * data[i * 4 + 2]) /
+      255;
+    signature[i] = gray;
+    sum += gray;
+  }
+  const mean = sum / signature.length;
+  for (let i = 0; i < signature.length; i++) signature[i] -= mean;
+  return signature;
+}
+
+/**
+ * Mean absolute difference between two signatures, in 0-1.
+ */
+export function appearanceDistance(a: Float32Array, b: Float32Array): number {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+}
+
+export function createAnalysisCache(
+  options?: Partial<AnalysisCacheOptions>,
+): AnalysisCache {
+  let opts: AnalysisCacheOptions = {...defaultAnalysisCacheOptions, ...options};
+  const cache = new Map<number, AnalysisEntry>();
+  const failures = new Map<number, AnalysisFailure>();
+
+  // Whether a failed request would now be sent differently
+  function changedSince(
+    failure: AnalysisFailure,
+    prompt: string,
+    signature: Float32Array | null,
+  ) {
+    return (
+      failure.prompt !== prompt ||
+      (opts.appearanceThreshold > 0 &&
+        !!signature &&
+        !!failure.signature &&
+        appearanceDistance(signature, failure.signature) >
+          opts.appearanceThreshold)
+    );
+  }
+
+  function reason(
+    entry: AnalysisEntry | undefined,
+    prompt: string,
+    signature: Float32Array | null,
+    now: number,
+  ): AnalysisReason | null {
+    if (!entry) return 'new';
+    if (entry.prompt !== prompt) return 'prompt';
+    if (opts.staleAfterMs > 0 && now - entry.analyzedAt > opts.staleAfterMs) {
+      return 'stale';
+    }
+    if (
+      opts.appearanceThreshold > 0 &&
+      signature &&
+      entry.signature &&
+      appearanceDistance(signature, entry.signature) > opts.appearanceThreshold
+    ) {
+      return 'appearance';
+    }
+    return null;
+  }
+
+  return {
+    get: (trackId) => cache.get(trackId),
+    entries: () => [...cache.values()],
+    due(tracks, prompt, image, now) {
+      const due: DueAnalysis[] = [];
+      for (const track of tracks) {
+        const signature = appearanceSignature(image, track.bbox);
+        const failure = failures.get(track.id);
+        if (
+          failure &&
+          now < failure.retryAt &&
+          !changedSince(failure, prompt, signature)
+        ) {
+          continue;
+        }
+        const why = reason(cache.get(track.id), prompt, signature, now);
+        if (why) due.push({track, reason: why, signature});
+      }
+      return due;
+    },
+    store(entry) {
+      cache.set(entry.trackId, entry);
+      failures.delete(entry.trackId);
+    },
+    fail(trackId, prompt, signature, retryable, now) {
+      const previous = failures.get(trackId);
+      const count =
+        previous && !changedSince(previous, prompt, signature)
+          ? previous.count + 1
+          : 1;
+      const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (count - 1));
+      failures.set(trackId, {
+        count,
+        retryAt: retryable ? now + delay : Infinity,
+        prompt,
+        signature,
+      });
+    },
+    retain(tracks) {
+      const alive = new Set(tracks.map((track) => track.id));
+      for (const trackId of cache.keys()) {
+        if (!alive.has(trackId)) cache.delete(trackId);
+      }
+      for (const trackId of failures.keys()) {
+        if (!alive.has(trackId)) failures.delete(trackId);
+      }
+    },
+    clear() {
+      cache.clear();
+      failures.clear();
+    },
+    getOptions: () => opts,
+    setOptions(changes) {
+      opts = {...opts, ...changes};
+    },
+  };
+}
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Hiding faces on the overlay.
+ *
+ * The overlay sits on top of the video, so a face is hidden by painting
+ * over it: a black box, or the same pixels of the current frame blurred or
+ * pixelated. Whatever is composited from the video and the overlay
+ * (snapshots, recordings) is anonymized the same way.
+ */
+
+import {BoundingBox} from './tracker.tsx';
+import {frameRectToScreen, OverlayContext, Viewport} from './viewport.tsx';
+
+export type AnonymizeStyle = 'blur' | 'pixelate' | 'box';
+
+export const ANONYMIZE_STYLES: Array<{style: AnonymizeStyle; label: string}> = [
+  {style: 'blur', label: 'Blur'},
+  {style: 'pixelate', label: 'Pixelate'},
+  {style: 'box', label: 'Black box'},
+];
+
+// Detector boxes hug the features; grow them to cover hair, ears and chin.
+// Fractions of the box size, added on each side.
+const PAD_X = 0.25;
+const PAD_Y = 0.35;
+// Cells across the face when pixelating
+const PIXELATE_CELLS = 8;
+// Blur radius as a fraction of the face width on screen
+const BLUR_FRACTION = 0.15;
+
+let scratch: OffscreenCanvas | null = null;
+
+/**
+ * Grow a face box to cover the whole head, clamped to the frame.
+ * @param box The detected face, in frame pixels
+ * @param view For the frame size
+ */
+export function padFaceBox(box: BoundingBox, view: Viewport): BoundingBox {
+  const originX = Math.max(0, box.originX - box.width * PAD_X);
+  const originY = Math.max(0, box.originY - box.height * PAD_Y);
+  return {
+    originX,
+    originY,
+    width:
+      Math.min(view.frameWidth, box.originX + box.width * (1 + PAD_X)) -
+      originX,
+    height:
+      Math.min(view.frameHeight, box.originY + box.height * (1 + PAD_Y)) -
+      originY,
+  };
+}
+
+/**
+ * Draw part of an image into a screen rectangle, flipped like the video
+ * when the view is mirrored.
+ */
+function drawRegion(
+  ctx: OverlayContext,
+  view: Viewport,
+  image: CanvasImageSource,
+  source: BoundingBox,
+  dest: {x: number; y: number; width: number; height: number},
+) {
+  ctx.save();
+  if (view.mirrored) {
+    ctx.translate(dest.x + dest.width, dest.y);
+    ctx.scale(-1, 1);
+  } else {
+    ctx.translate(dest.x, dest.y);
+  }
+  ctx.drawImage(
+    image,
+    source.originX,
+    source.originY,
+    source.width,
+    source.height,
+    0,
+    0,
+    dest.width,
+    dest.height,
+  );
+  ctx.restore();
+}
+
+/**
+ * Hide faces on an overlay.
+ * @param ctx The overlay, in screen coordinates
+ * @param view Maps frame pixels to the screen
+ * @param image The frame currently shown under the overlay
+ * @param faces Face boxes in frame pixels, padded already
+ * @param style How to hide them
+ */
+export function anonymizeFaces(
+  ctx: OverlayContext,
+  view: Viewport,
+  image: CanvasImageSource,
+  faces: BoundingBox[],
+  style: AnonymizeStyle,
+) {
+  // Without canvas filters (Safari) blurring falls back to pixelating
+  const effective = style === 'blur' && !('filter' in ctx) ? 'pixelate' : style;
+  for (const face of faces) {
+    if (face.width < 1 || face.height < 1) continue;
+    const dest = frameRectToScreen(view, face);
+    switch (effective) {
+      case 'box':
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(dest.x, dest.y, dest.width, dest.height);
+        break;
+      case 'blur': {
+        const radius = Math.max(4, dest.width * BLUR_FRACTION);
+        // Blur a larger region so the edges inside the clip stay opaque
+        const margin = radius / view.scale;
+        const source = {
+          originX: face.originX - margin,
+          originY: face.originY - margin,
+          width: face.width + margin * 2,
+          height: face.height + margin * 2,
+        };
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(dest.x, dest.y, dest.width, dest.height);
+        ctx.clip();
+        ctx.filter = `blur(${radius}px)`;
+        drawRegion(ctx, view, image, source, {
+          x: dest.x - radius,
+          y: dest.y - radius,
+          width: dest.width + radius * 2,
+          height: dest.height + radius * 2,
+        });
+        ctx.restore();
+        break;
+      }
+      case 'pixelate': {
+        const cellsX = PIXELATE_CELLS;
+        const cellsY = Math.max(
+          1,
+          Math.round((PIXELATE_CELLS * face.height) / face.width),
+        );
+        scratch ??= new OffscreenCanvas(1, 1);
+        scratch.width = cellsX;
+        scratch.height = cellsY;
+        scratch
+          .getContext('2d')!
+          .drawImage(
+            image,
+            face.originX,
+            face.originY,
+            face.width,
+            face.height,
+            0,
+            0,
+            cellsX,
+            cellsY,
+          );
+        ctx.save();
+        ctx.imageSmoothingEnabled = false;
+        drawRegion(
+          ctx,
+          view,
+          scratch,
+          {originX: 0, originY: 0, width: cellsX, height: cellsY},
+          dest,
+        );
+        ctx.restore();
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * User-defined person attributes for Gemini person analysis.
+ *
+ * An attribute schema lists what to report about each person and the type
+ * of each value. It is sent as a structured-output `responseSchema`, and
+ * the response is validated back into typed values, so results can be
+ * rendered and aggregated without parsing free text.
+ */
+
+import {Type} from '@google/genai';
+
+export type AttributeType = 'enum' | 'number' | 'range' | 'text';
+
+export interface AttributeDefinition {
+  name: string;
+  type: AttributeType;
+  // Allowed values, for 'enum'
+  values?: string[];
+  // Bounds, for 'number' and 'range'
+  min?: number;
+  max?: number;
+  // Extra guidance for the model
+  description?: string;
+}
+
+export type AttributeSchema = AttributeDefinition[];
+
+export interface AttributeRange {
+  min: number;
+  max: number;
+}
+
+// Null when the model could not tell or the value was invalid
+export type AttributeValue = string | number | AttributeRange | null;
+
+export type PersonAttributes = Record<string, AttributeValue>;
+
+export interface AttributeParseResult {
+  attributes: PersonAttributes;
+  // Values that were missing or did not fit their definition
+  errors: string[];
+}
+
+export const ATTRIBUTE_TYPES: AttributeType[] = [
+  'enum',
+  'number',
+  'range',
+  'text',
+];
+
+export const defaultAttributeSchema: AttributeSchema = [
+  {name: 'age', type: 'range', min: 0, max: 100, description: 'Estimated age'},
+  {name: 'gender', type: 'enum', values: ['female', 'male', 'unknown']},
+  {name: 'expression', type: 'text', description: 'Facial expression'},
+];
+
+/**
+ * Problems that would make a schema unusable.
+ * @returns One message per problem; empty if the schema is valid
+ */
+export function validateAttributeSchema(schema: AttributeSchema): string[] {
+  const errors: string[] = [];
+  const names = new Set<string>();
+  if (schema.length === 0) errors.push('Add at least one attribute');
+  for (const definition of schema) {
+    const name = definition.name.trim();
+    if (!name) {
+      errors.push('Every attribute needs a name');
+      continue;
+    }
+    if (names.has(name)) errors.push(`"${name}" is defined twice`);
+    names.add(name);
+    if (definition.type === 'enum' && !definition.values?.length) {
+      errors.push(`"${name}" needs at least one allowed value`);
+    }
+    if (
+      definition.min !== undefined &&
+      definition.max !== undefined &&
+      definition.min > definition.max
+    ) {
+      errors.push(`"${name}" has min greater than max`);
+    }
+  }
+  return errors;
+}
+
+function describe(definition: AttributeDefinition) {
+  const parts = [definition.description];
+  if (definition.min !== undefined || definition.max !== undefined) {
+    parts.push(
+      `between ${definition.min ?? '-inf'} and ${definition.max ?? 'inf'}`,
+    );
+  }
+  if (definition.type === 'range') {
+    parts.push('the narrowest range you are confident in');
+  }
+  return parts.filter(Boolean).join('; ') || undefined;
+}
+
+function valueSchema(definition: AttributeDefinition) {
+  const description = describe(definition);
+  switch (definition.type) {
+    case 'enum':
+      return {
+        type: Type.STRING,
+        enum: definition.values,
+        description,
+        nullable: true,
+      };
+    case 'number':
+      return {type: Type.NUMBER, description, nullable: true};
+    case 'range':
+      return {
+        type: Type.OBJECT,
+        properties: {min: {type: Type.NUMBER}, max: {type: Type.NUMBER}},
+        required: ['min', 'max'],
+        description,
+        nullable: true,
+      };
+    case 'text':
+      return {type: Type.STRING, description, nullable: true};
+  }
+}
+
+/**
+ * The structured-output schema for one person's attributes.
+ */
+export function attributeResponseSchema(schema: AttributeSchema) {
+  const properties: Record<string, unknown> = {};
+  for (const definition of schema) {
+    properties[definition.name] = valueSchema(definition);
+  }
+  return {
+    type: Type.OBJECT,
+    properties,
+    required: schema.map((definition) => definition.name),
+    propertyOrdering: schema.map((definition) => definition.name),
+  };
+}
+
+/**
+ * The prompt sent with a face crop.
+ * @param schema The attributes to report
+ * @param query Free-form instructions from the user, may be empty
+ */
+export function attributePrompt(schema: AttributeSchema, query: string) {
+  const fields = schema
+    .map((definition) => {
+      const kind =
+        definition.type === 'enum'
+          ? `one of ${definition.values!.map((v) => JSON.stringify(v)).join(', ')}`
+          : definition.type === 'range'
+            ? 'an object {"min": number, "max": number}'
+            : definition.type;
+      const details = describe(definition);
+      return `- "${definition.name}": ${kind}${details ? ` (${details})` : ''}`;
+    })
+    .join('\n');
+  return `Analyze the person in the image${
+    query ? ` with this in mind: "${query}"` : ''
+  }. Respond with a JSON object with these fields, using null for anything you cannot tell:\n${fields}`;
+}
+
+function inBounds(value: number, definition: AttributeDefinition) {
+  return (
+    (definition.min === undefined || value >= definition.min) &&
+    (definition.max === undefined || value <= definition.max)
+  );
+}
+
+function parseValue(
+  definition: AttributeDefinition,
+  raw: unknown,
+): {value: AttributeValue} | {error: string} {
+  if (raw === null || raw === undefined) return {value: null};
+  switch (definition.type) {
+    case 'enum': {
+      const match = definition.values!.find(
+        (value) => value.toLowerCase() === String(raw).trim().toLowerCase(),
+      );
+      return match !== undefined
+        ? {value: match}
+        : {error: `"${raw}" is not an allowed value`};
+    }
+    case 'number': {
+      const value = Number(raw);
+      if (!Number.isFinite(value)) return {error: `"${raw}" is not a number`};
+      return inBounds(value, definition)
+        ? {value}
+        : {error: `${value} is out of bounds`};
+    }
+    case 'range': {
+      // Accept a bare number or a "25-30" string as well; the dash is a
+      // separator there, so signs are not parsed
+      let min: number;
+      let max: number;
+      if (typeof raw === 'object') {
+        min = Number((raw as AttributeRange).min);
+        max = Number((raw as AttributeRange).max);
+      } else {
+        const numbers =
+          String(raw)
+            .match(/\d+(\.\d+)?/g)
+            ?.map(Number) ?? [];
+        [min, max] = [numbers[0], numbers[1] ?? numbers[0]];
+      }
+      if (!Number.isFinite(min) || !Number.isFinite(max)) {
+        return {error: `${JSON.stringify(raw)} is not a range`};
+      }
+      if (min > max) [min, max] = [max, min];
+      if (!inBounds(min, definition) || !inBounds(max, definition)) {
+        return {error: `${min}-${max} is out of bounds`};
+      }
+      return {value: {min, max}};
+    }
+    case 'text':
+      return {value: String(raw)};
+  }
+}
+
+/**
+ * Validate a response against the schema. Invalid or missing values become
+ * null and are reported, rather than failing the whole person.
+ * @param schema The attributes that were requested
+ * @param text The raw response text
+ */
+export function parseAttributes(
+  schema: AttributeSchema,
+  text: string,
+): AttributeParseResult {
+  const attributes: PersonAttributes = {};
+  const errors: string[] = [];
+  for (const definition of schema) attributes[definition.name] = null;
+
+  // Structured output is bare JSON, but tolerate fences and prose
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(text.slice(start, end + 1));
+    if (start < 0 || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('not an object');
+    }
+  } catch {
+    errors.push('Response was not a JSON object');
+    return {attributes, errors};
+  }
+
+  for (const definition of schema) {
+    if (!(definition.name in parsed)) {
+      errors.push(`${definition.name}: missing`);
+      continue;
+    }
+    const result = parseValue(definition, parsed[definition.name]);
+    if ('error' in result) {
+      errors.push(`${definition.name}: ${result.error}`);
+    } else {
+      attributes[definition.name] = result.value;
+    }
+  }
+  return {attributes, errors};
+}
+
+export function formatAttributeValue(value: AttributeValue): string {
+  if (value === null) return '–';
+  if (typeof value === 'object') {
+    return value.min === value.max
+      ? `${value.min}`
+      : `${value.min}–${value.max}`;
+  }
+  return `${value}`;
+}
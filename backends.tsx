@@ -0,0 +1,368 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Pluggable on-device vision backends.
+ *
+ * Every detector the render loop can run implements `VisionBackend` and
+ * returns the same normalized `VisionResult`, so the loop never needs to know
+ * which model produced a frame's output. Backends are created by id from a
+ * registry; the MediaPipe adapters and a deterministic fake for tests are
+ * registered by default.
+ */
+
+import {
+  Detection,
+  FaceDetector,
+  FilesetResolver,
+  HandLandmarker,
+  ObjectDetector,
+  PoseLandmarker,
+} from '@mediapipe/tasks-vision';
+import {VisionAssetConfig} from './config.tsx';
+import {HandData, PoseData, toHandData, toPoseData} from './landmarks.tsx';
+import {BoundingBox, TrackerDetection} from './tracker.tsx';
+
+export type WasmFileset = Awaited<
+  ReturnType<typeof FilesetResolver.forVisionTasks>
+>;
+
+// Anything MediaPipe can read pixels from
+export type VisionFrame =
+  | HTMLVideoElement
+  | HTMLCanvasElement
+  | HTMLImageElement
+  | ImageBitmap
+  | OffscreenCanvas;
+
+export interface VisionResult {
+  timestampMs: number;
+  // Boxes in frame pixels, ready to be fed to the tracker
+  detections: TrackerDetection[];
+  hands: HandData[];
+  poses: PoseData[];
+}
+
+export type Delegate = 'CPU' | 'GPU';
+
+export interface BackendLoadContext {
+  // Null for backends that do not run MediaPipe tasks
+  fileset: WasmFileset | null;
+  assets: VisionAssetConfig;
+  delegate: Delegate;
+}
+
+export interface VisionBackend {
+  readonly id: string;
+  load(context: BackendLoadContext): Promise<void>;
+  // Backends running off the main thread resolve asynchronously; the render
+  // loop drops frames while a detection is still in flight.
+  detect(
+    frame: VisionFrame,
+    timestampMs: number,
+  ): VisionResult | Promise<VisionResult>;
+  // Optional: JPEG-encode crops of a frame (base64, no data URL prefix).
+  // Backends that own a worker implement this to keep encoding off the
+  // main thread.
+  encodeCrops?(frame: VisionFrame, boxes: BoundingBox[]): Promise<string[]>;
+  close(): void;
+}
+
+export type VisionBackendFactory = () => VisionBackend;
+
+const registry = new Map<string, VisionBackendFactory>();
+
+/**
+ * Register a backend factory under an id, replacing any previous one.
+ * @param id The id used to create the backend
+ * @param factory Creates a new, unloaded backend instance
+ */
+export function registerBackend(id: string, factory: VisionBackendFactory) {
+  registry.set(id, factory);
+}
+
+/**
+ * Create a new, unloaded instance of a registered backend.
+ * @param id The backend id
+ * @returns The backend
+ */
+export function createBackend(id: string): VisionBackend {
+  const factory = registry.get(id);
+  if (!factory) {
+    throw new Error(`Unknown vision backend: ${id}`);
+  }
+  return factory();
+}
+
+export function listBackends(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Load a backend on the requested delegate. If the GPU delegate fails to
+ * initialize (no WebGL2, blocklisted driver, ...) the backend is reloaded on
+ * the CPU instead of failing outright.
+ * @returns The delegate the backend actually runs on
+ */
+export async function loadBackend(
+  backend: VisionBackend,
+  context: BackendLoadContext,
+): Promise<Delegate> {
+  try {
+    await backend.load(context);
+    return context.delegate;
+  } catch (e) {
+    if (context.delegate !== 'GPU') throw e;
+    console.warn(`GPU delegate failed for ${backend.id}, retrying on CPU`, e);
+    backend.close();
+    await backend.load({...context, delegate: 'CPU'});
+    return 'CPU';
+  }
+}
+
+export function emptyResult(timestampMs: number): VisionResult {
+  return {timestampMs, detections: [], hands: [], poses: []};
+}
+
+export function toTrackerDetections(
+  detections: Detection[] | undefined,
+  fallbackCategory: string,
+): TrackerDetection[] {
+  if (!detections) return [];
+  const trackerDetections: TrackerDetection[] = [];
+  for (const detection of detections) {
+    if (!detection.boundingBox) continue;
+    const category = detection.categories?.[0];
+    trackerDetections.push({
+      bbox: {
+        originX: detection.boundingBox.originX,
+        originY: detection.boundingBox.originY,
+        width: detection.boundingBox.width,
+        height: detection.boundingBox.height,
+      },
+      category: category?.categoryName?.toLowerCase() || fallbackCategory,
+      score: category?.score ?? 0,
+    });
+  }
+  return trackerDetections;
+}
+
+function requireFileset(context: BackendLoadContext): WasmFileset {
+  if (!context.fileset) {
+    throw new Error('MediaPipe vision tasks have not been initialized.');
+  }
+  return context.fileset;
+}
+
+export function createMediaPipeObjectBackend(): VisionBackend {
+  let detector: ObjectDetector | null = null;
+  return {
+    id: 'mediapipe-object',
+    async load(context) {
+      detector = await ObjectDetector.createFromOptions(
+        requireFileset(context),
+        {
+          baseOptions: {
+            modelAssetPath: context.assets.modelUrls.object,
+            delegate: context.delegate,
+          },
+          scoreThreshold: 0.5,
+          runningMode: 'VIDEO',
+        },
+      );
+    },
+    detect(frame, timestampMs) {
+      if (!detector) return emptyResult(timestampMs);
+      const results = detector.detectForVideo(frame, timestampMs);
+      return {
+        ...emptyResult(timestampMs),
+        detections: toTrackerDetections(results.detections, 'object'),
+      };
+    },
+    close() {
+      detector?.close();
+      detector = null;
+    },
+  };
+}
+
+export function createMediaPipeFaceBackend(): VisionBackend {
+  let detector: FaceDetector | null = null;
+  return {
+    id: 'mediapipe-face',
+    async load(context) {
+      detector = await FaceDetector.createFromOptions(requireFileset(context), {
+        baseOptions: {
+          modelAssetPath: context.assets.modelUrls.face,
+          delegate: context.delegate,
+        },
+        runningMode: 'VIDEO',
+      });
+    },
+    detect(frame, timestampMs) {
+      if (!detector) return emptyResult(timestampMs);
+      const results = detector.detectForVideo(frame, timestampMs);
+      return {
+        ...emptyResult(timestampMs),
+        // The face detector reports an empty category name
+        detections: toTrackerDetections(results.detections, 'face'),
+      };
+    },
+    close() {
+      detector?.close();
+      detector = null;
+    },
+  };
+}
+
+export function createMediaPipeHandBackend(): VisionBackend {
+  let landmarker: HandLandmarker | null = null;
+  return {
+    id: 'mediapipe-hands',
+    async load(context) {
+      landmarker = await HandLandmarker.createFromOptions(
+        requireFileset(context),
+        {
+          baseOptions: {
+            modelAssetPath: context.assets.modelUrls.hands,
+            delegate: context.delegate,
+          },
+          numHands: 2,
+          runningMode: 'VIDEO',
+        },
+      );
+    },
+    detect(frame, timestampMs) {
+      if (!landmarker) return emptyResult(timestampMs);
+      const results = landmarker.detectForVideo(frame, timestampMs);
+      return {...emptyResult(timestampMs), hands: toHandData(results)};
+    },
+    close() {
+      landmarker?.close();
+      landmarker = null;
+    },
+  };
+}
+
+export function createMediaPipePoseBackend(): VisionBackend {
+  let landmarker: PoseLandmarker | null = null;
+  return {
+    id: 'mediapipe-pose',
+    async load(context) {
+      landmarker = await PoseLandmarker.createFromOptions(
+        requireFileset(context),
+        {
+          baseOptions: {
+            modelAssetPath: context.assets.modelUrls.pose,
+            delegate: context.delegate,
+          },
+          numPoses: 4,
+          runningMode: 'VIDEO',
+        },
+      );
+    },
+    detect(frame, timestampMs) {
+      if (!landmarker) return emptyResult(timestampMs);
+      const results = landmarker.detectForVideo(frame, timestampMs);
+      return {...emptyResult(timestampMs), poses: toPoseData(results)};
+    },
+    close() {
+      landmarker?.close();
+      landmarker = null;
+    },
+  };
+}
+
+export interface FakeBackendOptions {
+  id?: string;
+  // Returns the result for a timestamp. Must be a pure function of its
+  // arguments so that runs are reproducible.
+  script?: (
+    timestampMs: number,
+    frameSize: {width: number; height: number},
+  ) => Omit<VisionResult, 'timestampMs'>;
+}
+
+function frameSize(frame: VisionFrame) {
+  // DOM element classes do not exist inside workers
+  if (
+    typeof HTMLVideoElement !== 'undefined' &&
+    frame instanceof HTMLVideoElement
+  ) {
+    return {width: frame.videoWidth, height: frame.videoHeight};
+  }
+  if (
+    typeof HTMLImageElement !== 'undefined' &&
+    frame instanceof HTMLImageElement
+  ) {
+    return {width: frame.naturalWidth, height: frame.naturalHeight};
+  }
+  return {width: frame.width, height: frame.height};
+}
+
+/**
+ * Default fake script: two boxes orbiting the frame center in opposite
+ * directions, one "face" and one "cup", with a fixed period.
+ */
+function orbitScript(
+  timestampMs: number,
+  {width, height}: {width: number; height: number},
+) {
+  const size = Math.min(width, height) / 5;
+  const radius = Math.min(width, height) / 4;
+  const phase = (timestampMs / 4000) * 2 * Math.PI;
+  const box = (angle: number) => ({
+    originX: width / 2 + Math.cos(angle) * radius - size / 2,
+    originY: height / 2 + Math.sin(angle) * radius - size / 2,
+    width: size,
+    height: size,
+  });
+  return {
+    detections: [
+      {bbox: box(phase), category: 'face', score: 0.9},
+      {bbox: box(-phase + Math.PI), category: 'cup', score: 0.8},
+    ],
+    hands: [],
+    poses: [],
+  };
+}
+
+/**
+ * A backend that needs no model or GPU and returns scripted results, for
+ * tests and for developing overlay features without a camera.
+ */
+export function createFakeBackend(
+  options: FakeBackendOptions = {},
+): VisionBackend {
+  const script = options.script ?? orbitScript;
+  return {
+    id: options.id ?? 'fake',
+    async load() {},
+    detect(frame, timestampMs) {
+      return {timestampMs, ...script(timestampMs, frameSize(frame))};
+    },
+    close() {},
+  };
+}
+
+registerBackend('mediapipe-object', createMediaPipeObjectBackend);
+registerBackend('mediapipe-face', createMediaPipeFaceBackend);
+registerBackend('mediapipe-hands', createMediaPipeHandBackend);
+registerBackend('mediapipe-pose', createMediaPipePoseBackend);
+registerBackend('fake', () => createFakeBackend());
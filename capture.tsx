@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Still captures of the live view: the source frame as it is shown (fit
+ * and mirroring included) with the overlay drawn on top.
+ *
+ * The overlay is drawn afresh for the capture rather than copied from the
+ * screen, so it always matches the captured frame; anything the overlay
+ * hides, such as anonymized faces, is hidden in the capture too.
+ */
+
+import {OverlayContext, prepareCanvas, Viewport} from './viewport.tsx';
+
+/**
+ * Draw a frame the way the live view shows it.
+ * @param ctx A context in screen coordinates, sized for the view
+ * @param view The viewport the frame is shown with
+ * @param image The frame
+ */
+export function drawSourceFrame(
+  ctx: OverlayContext,
+  view: Viewport,
+  image: CanvasImageSource,
+) {
+  ctx.save();
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, view.screenWidth, view.screenHeight);
+  if (view.mirrored) {
+    ctx.translate(view.screenWidth, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.drawImage(
+    image,
+    view.offsetX,
+    view.offsetY,
+    view.frameWidth * view.scale,
+    view.frameHeight * view.scale,
+  );
+  ctx.restore();
+}
+
+/**
+ * Compose a frame and its overlay into a new canvas, at the resolution of
+ * the screen.
+ * @param view The viewport the frame is shown with
+ * @param image The frame
+ * @param drawOverlay Draws the overlay in screen coordinates
+ */
+export function composeFrame(
+  view: Viewport,
+  image: CanvasImageSource,
+  drawOverlay: (ctx: OverlayContext, view: Viewport) => void,
+): OffscreenCanvas {
+  const canvas = new OffscreenCanvas(1, 1);
+  const ctx = canvas.getContext('2d')!;
+  prepareCanvas(canvas, ctx, view);
+  drawSourceFrame(ctx, view, image);
+  drawOverlay(ctx, view);
+  return canvas;
+}
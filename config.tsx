@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Where the MediaPipe WASM runtime and model files are loaded from.
+ *
+ * Settings are resolved in three layers, later ones winning:
+ *   1. Defaults: the public CDN, pinned to the installed tasks-vision version.
+ *   2. Build-time env (see vite.config.ts): VISION_ASSET_BASE switches to a
+ *      self-hosted copy laid out like `npm run fetch-vision-assets` writes
+ *      it; MEDIAPIPE_WASM_PATH and <TASK>_MODEL_URL override single entries.
+ *   3. Runtime: `window.visionConfig`, set before the app loads (e.g. by a
+ *      script tag on a lab machine), and `setVisionConfig`.
+ */
+
+export type VisionModelTask = 'object' | 'face' | 'hands' | 'pose';
+
+export interface VisionAssetConfig {
+  // Directory containing vision_wasm_internal.{js,wasm}
+  wasmBasePath: string;
+  modelUrls: Record<VisionModelTask, string>;
+}
+
+export type VisionAssetOverrides = Partial<
+  Omit<VisionAssetConfig, 'modelUrls'>
+> & {
+  // Shorthand for a self-hosted copy of every asset under one base URL
+  assetBase?: string;
+  modelUrls?: Partial<Record<VisionModelTask, string>>;
+};
+
+declare global {
+  interface Window {
+    visionConfig?: VisionAssetOverrides;
+  }
+}
+
+// Kept in sync with package.json by vite.config.ts so the WASM runtime never
+// drifts from the JS API it is loaded by.
+export const MEDIAPIPE_VERSION = process.env.MEDIAPIPE_VERSION || '0.10.14';
+
+const MODEL_BASE = 'https://storage.googleapis.com/mediapipe-models';
+
+export const REMOTE_MODEL_URLS: Record<VisionModelTask, string> = {
+  object: `${MODEL_BASE}/object_detector/efficientdet_lite0/float16/1/efficientdet_lite0.tflite`,
+  face: `${MODEL_BASE}/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite`,
+  hands: `${MODEL_BASE}/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
+  pose: `${MODEL_BASE}/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task`,
+};
+
+const defaultConfig: VisionAssetConfig = {
+  wasmBasePath: `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}/wasm`,
+  modelUrls: REMOTE_MODEL_URLS,
+};
+
+/**
+ * The config for a self-hosted copy of every asset, with the WASM files in
+ * `<base>/wasm` and each model under `<base>/models` with its original name.
+ * @param base The URL or path the assets are served from
+ */
+export function localAssetConfig(base: string): VisionAssetConfig {
+  const root = base.replace(/\/+$/, '');
+  const modelUrls = {} as Record<VisionModelTask, string>;
+  for (const task of Object.keys(REMOTE_MODEL_URLS) as VisionModelTask[]) {
+    const file = REMOTE_MODEL_URLS[task].split('/').pop();
+    modelUrls[task] = `${root}/models/${file}`;
+  }
+  return {wasmBasePath: `${root}/wasm`, modelUrls};
+}
+
+function envOverrides(): VisionAssetOverrides {
+  const modelUrls: Partial<Record<VisionModelTask, string>> = {};
+  if (process.env.OBJECT_MODEL_URL)
+    modelUrls.object = process.env.OBJECT_MODEL_URL;
+  if (process.env.FACE_MODEL_URL) modelUrls.face = process.env.FACE_MODEL_URL;
+  if (process.env.HAND_MODEL_URL) modelUrls.hands = process.env.HAND_MODEL_URL;
+  if (process.env.POSE_MODEL_URL) modelUrls.pose = process.env.POSE_MODEL_URL;
+  return {
+    assetBase: process.env.VISION_ASSET_BASE || undefined,
+    wasmBasePath: process.env.MEDIAPIPE_WASM_PATH || undefined,
+    modelUrls,
+  };
+}
+
+function applyOverrides(
+  config: VisionAssetConfig,
+  overrides: VisionAssetOverrides | undefined,
+): VisionAssetConfig {
+  if (!overrides) return config;
+  const base = overrides.assetBase
+    ? localAssetConfig(overrides.assetBase)
+    : config;
+  const modelUrls = {...base.modelUrls};
+  for (const [task, url] of Object.entries(overrides.modelUrls ?? {})) {
+    if (url) modelUrls[task as VisionModelTask] = url;
+  }
+  return {
+    wasmBasePath: overrides.wasmBasePath || base.wasmBasePath,
+    modelUrls,
+  };
+}
+
+let runtimeOverrides: VisionAssetOverrides | undefined;
+
+/**
+ * Override asset locations at runtime. Takes effect for the next model load.
+ * @param overrides The settings to override; pass undefined to clear
+ */
+export function setVisionConfig(overrides: VisionAssetOverrides | undefined) {
+  runtimeOverrides = overrides;
+}
+
+export function getVisionConfig(): VisionAssetConfig {
+  let config = applyOverrides(defaultConfig, envOverrides());
+  if (typeof window !== 'undefined') {
+    config = applyOverrides(config, window.visionConfig);
+  }
+  return applyOverrides(config, runtimeOverrides);
+}
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Display lists: canvas drawing recorded on one thread and replayed on
+ * another.
+ *
+ * The recording context stands in for a 2D context. Drawing calls and
+ * property changes are appended to a list instead of being rasterized;
+ * transform and style state is kept on a 1x1 canvas, so reads such as
+ * `measureText` and `globalAlpha` answer as a real context would. Images
+ * drawn are snapshotted as ImageBitmaps, which can be transferred along
+ * with the list. Path2D, gradients and patterns cannot be sent to another
+ * thread and are not supported.
+ */
+
+import {OverlayContext} from './viewport.tsx';
+
+export type DisplayCommand =
+  {set: string; value: unknown} | {call: string; args: unknown[]};
+
+export interface DisplayList {
+  commands: DisplayCommand[];
+  // Images drawn, referred to from `commands` by index; null where the
+  // image could not be read
+  bitmaps: Array<ImageBitmap | null>;
+}
+
+export interface DisplayListRecorder {
+  // Records whatever is drawn into it
+  ctx: OverlayContext;
+  /**
+   * Take what was recorded since the last call and start a new list.
+   * @returns The list, once its images are snapshotted
+   */
+  finish(): Promise<DisplayList>;
+}
+
+// Methods that change state later reads depend on; applied to the 1x1
+// canvas as well as recorded
+const STATE_METHODS = new Set([
+  'save',
+  'restore',
+  'setTransform',
+  'resetTransform',
+  'translate',
+  'scale',
+  'rotate',
+  'transform',
+  'setLineDash',
+]);
+
+// Stands in for an image argument in a recorded call
+interface BitmapRef {
+  bitmap: number;
+}
+
+function isBitmapRef(value: unknown): value is BitmapRef {
+  return typeof (value as BitmapRef)?.bitmap === 'number';
+}
+
+export function createDisplayListRecorder(): DisplayListRecorder {
+  const state = new OffscreenCanvas(1, 1).getContext('2d')!;
+  const fields = state as unknown as Record<string | symbol, unknown>;
+  let commands: DisplayCommand[] = [];
+  let bitmaps: Array<Promise<ImageBitmap | null>> = [];
+
+  function snapshot(image: CanvasImageSource): BitmapRef {
+    bitmaps.push(
+      createImageBitmap(image as ImageBitmapSource).catch(() => null),
+    );
+    return {bitmap: bitmaps.length - 1};
+  }
+
+  const ctx = new Proxy(state, {
+    get(target, name) {
+      const value = fields[name];
+      if (typeof value !== 'function') return value;
+      // Queries (measureText, getTransform, ...) and factories answer from
+      // the state canvas and are not recorded
+      if (typeof name !== 'string' || /^(get|measure|is|create)/.test(name)) {
+        return value.bind(target);
+      }
+      return (...args: unknown[]) => {
+        if (name === 'drawImage') {
+          args = [snapshot(args[0] as CanvasImageSource), ...args.slice(1)];
+        }
+        commands.push({call: name, args});
+        if (STATE_METHODS.has(name)) value.apply(target, args);
+      };
+    },
+    set(target, name, value) {
+      fields[name] = value;
+      if (typeof name === 'string') commands.push({set: name, value});
+      return true;
+    },
+  }) as OverlayContext;
+
+  return {
+    ctx,
+    async finish() {
+      const list = commands;
+      const images = bitmaps;
+      commands = [];
+      bitmaps = [];
+      // Resizing a canvas resets its context state
+      state.canvas.width = 1;
+      return {commands: list, bitmaps: await Promise.all(images)};
+    },
+  };
+}
+
+/**
+ * Draw a recorded display list.
+ * @param ctx The context to draw into
+ * @param list The recorded list; its bitmaps are closed afterwards
+ */
+export function replayDisplayList(ctx: OverlayContext, list: DisplayList) {
+  const fields = ctx as unknown as Record<string, unknown>;
+  for (const command of list.commands) {
+    if ('set' in command) {
+      fields[command.set] = command.value;
+      continue;
+    }
+    const args = command.args.map((arg) =>
+      isBitmapRef(arg) ? list.bitmaps[arg.bitmap] : arg,
+    );
+    // An image that could not be read is left out, as drawing it would be
+    if (command.call === 'drawImage' && !args[0]) continue;
+    (fields[command.call] as (...args: unknown[]) => void).apply(ctx, args);
+  }
+  for (const bitmap of list.bitmaps) bitmap?.close();
+}
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Event bus for a live session: what happened and when, kept after the
+ * frame it happened in is gone.
+ *
+ * Events are grouped by kind and carry a human-readable message plus the
+ * structured data behind it, so the log can be read in the timeline panel
+ * and analyzed offline from its export. The bus keeps the newest
+ * `MAX_SESSION_EVENTS` events.
+ */
+
+export type SessionEventKind =
+  'track' | 'analysis' | 'mode' | 'prompt' | 'zone' | 'crossing' | 'error';
+
+export const SESSION_EVENT_KINDS: SessionEventKind[] = [
+  'track',
+  'analysis',
+  'mode',
+  'prompt',
+  'zone',
+  'crossing',
+  'error',
+];
+
+export interface SessionEvent {
+  // Increases by one per event, including dropped ones
+  id: number;
+  // Date.now() when emitted
+  at: number;
+  kind: SessionEventKind;
+  // What happened within the kind, e.g. 'appeared' or 'enter'
+  action: string;
+  message: string;
+  data: Record<string, unknown>;
+}
+
+export interface EventBus {
+  emit(
+    kind: SessionEventKind,
+    action: string,
+    message: string,
+    data?: Record<string, unknown>,
+  ): SessionEvent;
+  // Oldest first; the array is replaced, not mutated, on every change
+  events(): readonly SessionEvent[];
+  clear(): void;
+  subscribe(listener: (events: readonly SessionEvent[]) => void): () => void;
+}
+
+export const MAX_SESSION_EVENTS = 10000;
+
+export function createEventBus(limit = MAX_SESSION_EVENTS): EventBus {
+  let log: readonly SessionEvent[] = [];
+  let nextId = 1;
+  const listeners = new Set<(events: readonly SessionEvent[]) => void>();
+
+  function notify() {
+    for (const listener of listeners) listener(log);
+  }
+
+  return {
+    emit(kind, action, message, data = {}) {
+      const event: SessionEvent = {
+        id: nextId++,
+        at: Date.now(),
+        kind,
+        action,
+        message,
+        data,
+      };
+      log = [...log.slice(Math.max(0, log.length + 1 - limit)), event];
+      notify();
+      return event;
+    },
+    events: () => log,
+    clear() {
+      log = [];
+      notify();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Serialize events as JSON Lines, one object per line.
+ */
+export function eventsToJsonLines(events: readonly SessionEvent[]): string {
+  return events
+    .map((event) =>
+      JSON.stringify({...event, time: new Date(event.at).toISOString()}),
+    )
+    .join('\n');
+}
+
+/**
+ * Events as CSV rows, header first. The structured data goes in one JSON
+ * column.
+ */
+export function eventsToCsvRows(
+  events: readonly SessionEvent[],
+): Array<Array<string | number>> {
+  return [
+    ['id', 'time', 'kind', 'action', 'message', 'data'],
+    ...events.map((event) => [
+      event.id,
+      new Date(event.at).toISOString(),
+      event.kind,
+      event.action,
+      event.message,
+      JSON.stringify(event.data),
+    ]),
+  ];
+}
+
+let sharedBus: EventBus | null = null;
+
+/** The bus shared by the whole app, created on first use. */
+export function getEventBus(): EventBus {
+  sharedBus ??= createEventBus();
+  return sharedBus;
+}
@@ -0,0 +1,314 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * The one Gemini client the app talks to.
+ *
+ * Callers build a `GeminiRequest` and get back plain text plus token usage;
+ * how the request reaches a model is up to the transport. The Google
+ * transport calls the Gemini API, and the mock transport in geminiMock.tsx
+ * answers from fixtures so the app runs offline without an API key.
+ *
+ * The shared client is chosen in three layers, later ones winning:
+ *   1. Build-time env (see vite.config.ts): GEMINI_BACKEND ('google' or
+ *      'mock') and GEMINI_MODEL.
+ *   2. `window.geminiConfig`, set before the app loads.
+ *   3. `setGeminiClient`, e.g. from tests or an embedding page.
+ *
+ * The default client sends everything through the shared privacy guard
+ * (see privacy.tsx); a client passed to `setGeminiClient` is used as is.
+ */
+
+import {GoogleGenAI} from '@google/genai';
+import {createMockTransport, MockFixture} from './geminiMock.tsx';
+import {createPrivacyTransport, getPrivacyGuard} from './privacy.tsx';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+export type GeminiPart =
+  {text: string} | {inlineData: {mimeType: string; data: string}};
+
+export interface GeminiConfig {
+  temperature?: number;
+  // 0 disables thinking, which spatial tasks are better off without
+  thinkingBudget?: number;
+  systemInstruction?: string;
+  responseMimeType?: string;
+  // OpenAPI-style schema for structured output
+  responseSchema?: unknown;
+}
+
+export interface GeminiRequest {
+  parts: GeminiPart[];
+  // Defaults to the client's model
+  model?: string;
+  config?: GeminiConfig;
+  // Attributed in usage reports, e.g. the app mode that sent the request
+  tag?: string;
+  // Stops waiting for the response; the request rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface GeminiUsage {
+  promptTokens: number;
+  responseTokens: number;
+  thoughtsTokens: number;
+  totalTokens: number;
+}
+
+export interface GeminiResponse {
+  text: string;
+  model: string;
+  // Null if the transport did not report usage
+  usage: GeminiUsage | null;
+}
+
+export interface GeminiChunk {
+  // Text of this chunk only
+  text: string;
+  // Usage so far; transports usually report it on the last chunk only
+  usage: GeminiUsage | null;
+}
+
+export interface GeminiUsageEvent {
+  model: string;
+  tag: string | undefined;
+  usage: GeminiUsage;
+  transport: string;
+  timestamp: number;
+}
+
+/** Delivers fully resolved requests (model filled in) to a model. */
+export interface GeminiTransport {
+  readonly name: string;
+  generate(request: GeminiRequest & {model: string}): Promise<GeminiResponse>;
+  stream(request: GeminiRequest & {model: string}): AsyncIterable<GeminiChunk>;
+}
+
+export interface GeminiClient {
+  readonly model: string;
+  readonly transport: GeminiTransport;
+  generate(request: GeminiRequest): Promise<GeminiResponse>;
+  stream(request: GeminiRequest): AsyncIterable<GeminiChunk>;
+  // Called once per completed request that reported usage
+  onUsage(listener: (event: GeminiUsageEvent) => void): () => void;
+}
+
+export interface GeminiClientOverrides {
+  backend?: 'google' | 'mock';
+  model?: string;
+  apiKey?: string;
+  // Fixtures for the mock backend, checked before the built-in ones
+  fixtures?: MockFixture[];
+}
+
+declare global {
+  interface Window {
+    geminiConfig?: GeminiClientOverrides;
+  }
+}
+
+function toUsage(metadata: {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  totalTokenCount?: number;
+}): GeminiUsage {
+  const promptTokens = metadata.promptTokenCount ?? 0;
+  const responseTokens = metadata.candidatesTokenCount ?? 0;
+  const thoughtsTokens = metadata.thoughtsTokenCount ?? 0;
+  return {
+    promptTokens,
+    responseTokens,
+    thoughtsTokens,
+    totalTokens:
+      metadata.totalTokenCount ??
+      promptTokens + responseTokens + thoughtsTokens,
+  };
+}
+
+// The SDK cannot cancel a request in flight, so stop waiting for it instead
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, {once: true});
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Transport that calls the Gemini API through @google/genai.
+ * @param apiKey The API key; the SDK throws if it is missing
+ */
+export function createGoogleTransport(
+  apiKey: string | undefined,
+): GeminiTransport {
+  const ai = new GoogleGenAI({apiKey});
+
+  function toParams(request: GeminiRequest & {model: string}) {
+    const {thinkingBudget, ...config} = request.config ?? {};
+    return {
+      model: request.model,
+      contents: {parts: request.parts},
+      config: {
+        ...config,
+        ...(thinkingBudget !== undefined && {thinkingConfig: {thinkingBudget}}),
+      },
+    };
+  }
+
+  return {
+    name: 'google',
+    async generate(request) {
+      const response = await raceAbort(
+        ai.models.generateContent(
+          toParams(request) as Parameters<typeof ai.models.generateContent>[0],
+        ),
+        request.signal,
+      );
+      return {
+        text: response.text ?? '',
+        model: request.model,
+        usage: response.usageMetadata ? toUsage(response.usageMetadata) : null,
+      };
+    },
+    async *stream(request) {
+      const chunks = await raceAbort(
+        ai.models.generateContentStream(
+          toParams(request) as Parameters<
+            typeof ai.models.generateContentStream
+          >[0],
+        ),
+        request.signal,
+      );
+      for await (const chunk of chunks) {
+        request.signal?.throwIfAborted();
+        yield {
+          text: chunk.text ?? '',
+          usage: chunk.usageMetadata ? toUsage(chunk.usageMetadata) : null,
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Create a client on top of a transport.
+ * @param transport Delivers requests to a model
+ * @param model The model used when a request does not name one
+ */
+export function createGeminiClient(
+  transport: GeminiTransport,
+  model = DEFAULT_GEMINI_MODEL,
+): GeminiClient {
+  const listeners = new Set<(event: GeminiUsageEvent) => void>();
+
+  function report(
+    request: GeminiRequest & {model: string},
+    usage: GeminiUsage | null,
+  ) {
+    if (!usage) return;
+    const event = {
+      model: request.model,
+      tag: request.tag,
+      usage,
+      transport: transport.name,
+      timestamp: Date.now(),
+    };
+    for (const listener of listeners) listener(event);
+  }
+
+  return {
+    model,
+    transport,
+    async generate(request) {
+      const resolved = {...request, model: request.model ?? model};
+      const response = await transport.generate(resolved);
+      report(resolved, response.usage);
+      return response;
+    },
+    async *stream(request) {
+      const resolved = {...request, model: request.model ?? model};
+      let usage: GeminiUsage | null = null;
+      for await (const chunk of transport.stream(resolved)) {
+        usage = chunk.usage ?? usage;
+        yield chunk;
+      }
+      report(resolved, usage);
+    },
+    onUsage(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Whether a model accepts `responseSchema`; older Gemini models ignore or
+ * reject it.
+ * @param model The model name
+ */
+export function supportsStructuredOutput(model: string): boolean {
+  return /^gemini-(1\.5|[2-9])/.test(model);
+}
+
+let sharedClient: GeminiClient | null = null;
+
+function createDefaultClient(): GeminiClient {
+  const overrides: GeminiClientOverrides = {
+    backend: process.env.GEMINI_BACKEND === 'mock' ? 'mock' : 'google',
+    model: process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL,
+    apiKey: process.env.API_KEY,
+    ...(typeof window !== 'undefined' ? window.geminiConfig : undefined),
+  };
+  const transport =
+    overrides.backend === 'mock'
+      ? createMockTransport({fixtures: overrides.fixtures})
+      : createGoogleTransport(overrides.apiKey);
+  return createGeminiClient(
+    createPrivacyTransport(transport, getPrivacyGuard()),
+    overrides.model,
+  );
+}
+
+/**
+ * The client shared by the whole app, created on first use. Throws if the
+ * Google backend is selected without an API key.
+ */
+export function getGeminiClient(): GeminiClient {
+  sharedClient ??= createDefaultClient();
+  return sharedClient;
+}
+
+/**
+ * Replace the shared client, e.g. with a mock in tests.
+ * @param client The client, or null to recreate the default on next use
+ */
+export function setGeminiClient(client: GeminiClient | null) {
+  sharedClient = client;
+}
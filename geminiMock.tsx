@@ -0,0 +1,302 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Offline Gemini transport that answers from fixtures.
+ *
+ * A fixture pairs a match (prompt substring, tag, model) with either a
+ * recorded response string or a script that computes one from the request.
+ * The first matching fixture wins; the built-in fixtures cover every prompt
+ * the app sends, so the mock works with no configuration. Responses from a
+ * real session can be captured with `createRecordingTransport` and replayed
+ * by passing them in as fixtures.
+ */
+
+import {Schema, Type} from '@google/genai';
+import {
+  GeminiRequest,
+  GeminiResponse,
+  GeminiTransport,
+  GeminiUsage,
+} from './gemini.tsx';
+
+type ResolvedRequest = GeminiRequest & {model: string};
+
+export interface MockFixture {
+  // Every given condition must hold; a fixture without `match` matches all
+  match?: {promptIncludes?: string; tag?: string; model?: string};
+  // A recorded response, or a script computing one. Scripts get the number
+  // of times this fixture has matched so far.
+  response: string | ((request: ResolvedRequest, callIndex: number) => string);
+  // Reported usage; estimated from the request and response if omitted
+  usage?: Partial<GeminiUsage>;
+  // Reject with this message instead of responding
+  error?: string;
+  // HTTP status reported with `error`, e.g. 429 to exercise retries
+  status?: number;
+  // Overrides the transport's latency
+  delayMs?: number;
+}
+
+export interface MockTransportOptions {
+  // Checked before the built-in fixtures
+  fixtures?: MockFixture[];
+  // Simulated round trip
+  latencyMs?: number;
+  // Characters per streamed chunk
+  streamChunkSize?: number;
+}
+
+// 1x1 white grayscale PNG, a valid stand-in for segmentation masks
+const WHITE_PIXEL_PNG =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAAAAAA6fptVAAAACklEQVR4nGP4DwABAQEAsTj2FAAAAABJRU5ErkJggg==';
+
+const PERSON_DESCRIPTIONS = [
+  'Gender: Female, Age: 25-30, Expression: Smiling',
+  'Gender: Male, Age: 35-40, Expression: Neutral',
+  'Gender: Female, Age: 45-50, Expression: Focused',
+  'Gender: Male, Age: 18-22, Expression: Surprised',
+];
+
+function asJsonBlock(value: unknown) {
+  return '```json\n' + JSON.stringify(value, null, 2) + '\n```';
+}
+
+// Same image, same description: hash the first inline image
+function imageHash(request: ResolvedRequest) {
+  for (const part of request.parts) {
+    if ('inlineData' in part) {
+      let hash = 0;
+      const data = part.inlineData.data;
+      for (let i = 0; i < data.length; i += 97) {
+        hash = (hash * 31 + data.charCodeAt(i)) | 0;
+      }
+      return Math.abs(hash);
+    }
+  }
+  return 0;
+}
+
+// A deterministic value that satisfies a structured-output schema
+function sampleFromSchema(schema: Schema | undefined, seed: number): unknown {
+  switch (schema?.type) {
+    case Type.OBJECT: {
+      const value: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        value[key] = sampleFromSchema(property, seed + key.length);
+      }
+      // Keep ranges ordered
+      if (typeof value.min === 'number' && typeof value.max === 'number') {
+        value.max = (value.min as number) + 5;
+      }
+      return value;
+    }
+    case Type.ARRAY:
+      return [sampleFromSchema(schema.items, seed)];
+    case Type.STRING:
+      return schema.enum?.length
+        ? schema.enum[seed % schema.enum.length]
+        : 'mock value';
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return 20 + (seed % 40);
+    case Type.BOOLEAN:
+      return seed % 2 === 0;
+    default:
+      return null;
+  }
+}
+
+export const defaultMockFixtures: MockFixture[] = [
+  {
+    match: {promptIncludes: 'Analyze the person'},
+    response: (request) =>
+      request.config?.responseSchema
+        ? JSON.stringify(
+            sampleFromSchema(
+              request.config.responseSchema as Schema,
+              imageHash(request),
+            ),
+          )
+        : PERSON_DESCRIPTIONS[imageHash(request) % PERSON_DESCRIPTIONS.length],
+  },
+  {
+    match: {promptIncludes: 'Segment'},
+    response: asJsonBlock([
+      {
+        box_2d: [100, 150, 600, 500],
+        label: 'mock region',
+        mask: WHITE_PIXEL_PNG,
+      },
+    ]),
+  },
+  {
+    match: {promptIncludes: '"box_2d"'},
+    response: asJsonBlock([
+      {box_2d: [200, 150, 700, 450], label: 'mock item'},
+      {box_2d: [300, 550, 800, 900], label: 'another mock item'},
+    ]),
+  },
+  {
+    match: {promptIncludes: '"point"'},
+    response: asJsonBlock([
+      {point: [300, 400], label: 'mock point'},
+      {point: [600, 650], label: 'another mock point'},
+    ]),
+  },
+  {
+    match: {promptIncludes: '"box_3d"'},
+    response: asJsonBlock([
+      {box_3d: [0, 2, 0.5, 1, 1, 1, 0, 0, 30], label: 'mock box'},
+    ]),
+  },
+  {response: 'This is a mock Gemini response.'},
+];
+
+function promptText(request: ResolvedRequest) {
+  return request.parts
+    .map((part) => ('text' in part ? part.text : ''))
+    .join('\n');
+}
+
+function matches(fixture: MockFixture, request: ResolvedRequest) {
+  const match = fixture.match;
+  if (!match) return true;
+  if (match.model !== undefined && match.model !== request.model) return false;
+  if (match.tag !== undefined && match.tag !== request.tag) return false;
+  return (
+    match.promptIncludes === undefined ||
+    promptText(request).includes(match.promptIncludes)
+  );
+}
+
+// Rough Gemini accounting: ~4 characters per text token, 258 per image
+function estimateUsage(request: ResolvedRequest, text: string): GeminiUsage {
+  let promptTokens = 0;
+  for (const part of request.parts) {
+    promptTokens += 'text' in part ? Math.ceil(part.text.length / 4) : 258;
+  }
+  const responseTokens = Math.ceil(text.length / 4);
+  return {
+    promptTokens,
+    responseTokens,
+    thoughtsTokens: 0,
+    totalTokens: promptTokens + responseTokens,
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+}
+
+export function createMockTransport(
+  options: MockTransportOptions = {},
+): GeminiTransport {
+  const fixtures = [...(options.fixtures ?? []), ...defaultMockFixtures];
+  const latencyMs = options.latencyMs ?? 400;
+  const chunkSize = options.streamChunkSize ?? 24;
+  const callCounts = new Map<MockFixture, number>();
+
+  async function respond(request: ResolvedRequest) {
+    const fixture = fixtures.find((f) => matches(f, request))!;
+    const callIndex = callCounts.get(fixture) ?? 0;
+    callCounts.set(fixture, callIndex + 1);
+    await sleep(fixture.delayMs ?? latencyMs, request.signal);
+    if (fixture.error) {
+      // Worded like the SDK's errors, which only carry the status in text
+      const status = fixture.status ?? 500;
+      throw Object.assign(
+        new Error(`got status: ${status}. ${fixture.error}`),
+        {status},
+      );
+    }
+    const text =
+      typeof fixture.response === 'function'
+        ? fixture.response(request, callIndex)
+        : fixture.response;
+    const usage = {...estimateUsage(request, text), ...fixture.usage};
+    return {text, usage};
+  }
+
+  return {
+    name: 'mock',
+    async generate(request) {
+      const {text, usage} = await respond(request);
+      return {text, model: request.model, usage};
+    },
+    async *stream(request) {
+      const {text, usage} = await respond(request);
+      for (let i = 0; i < text.length; i += chunkSize) {
+        const last = i + chunkSize >= text.length;
+        yield {text: text.slice(i, i + chunkSize), usage: last ? usage : null};
+        if (!last) await sleep(30, request.signal);
+      }
+    },
+  };
+}
+
+/**
+ * Wrap a transport and keep every response as a fixture, for replaying a
+ * real session offline. Only the prompt text and tag are matched on replay.
+ * @param inner The transport that actually answers
+ */
+export function createRecordingTransport(
+  inner: GeminiTransport,
+): GeminiTransport & {fixtures(): MockFixture[]} {
+  const recorded: MockFixture[] = [];
+
+  function record(request: ResolvedRequest, response: GeminiResponse) {
+    recorded.push({
+      match: {promptIncludes: promptText(request), tag: request.tag},
+      response: response.text,
+      ...(response.usage && {usage: response.usage}),
+    });
+  }
+
+  return {
+    name: `recording:${inner.name}`,
+    async generate(request) {
+      const response = await inner.generate(request);
+      record(request, response);
+      return response;
+    },
+    async *stream(request) {
+      let text = '';
+      let usage: GeminiUsage | null = null;
+      for await (const chunk of inner.stream(request)) {
+        text += chunk.text;
+        usage = chunk.usage ?? usage;
+        yield chunk;
+      }
+      record(request, {text, model: request.model, usage});
+    },
+    fixtures: () => [...recorded],
+  };
+}
@@ -0,0 +1,378 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Occupancy heatmap: where tracked detections spend time over a session.
+ *
+ * The frame is divided into a grid in normalized coordinates. Each time a
+ * detected track is updated, the time since the previous frame is added to
+ * the cell under the center of its box. That time goes to a layer for the
+ * track's category and to the track's own record. Tracks that are only
+ * coasting on predicted motion add nothing. Gaps between frames longer
+ * than `maxFrameGapMs`, such as a pause or a seek, add nothing either.
+ *
+ * Per-track records double as dwell statistics: how long each track was
+ * seen and in how many cells.
+ *
+ * Accumulation has no DOM dependencies. Only the drawing functions at the
+ * end need a canvas.
+ */
+
+import {boxCenter, Track} from './tracker.tsx';
+import {OverlayContext, Viewport} from './viewport.tsx';
+
+export interface HeatmapOptions {
+  // Grid size; changing it clears the heatmap
+  cols: number;
+  rows: number;
+  // Longer gaps between frames are not counted as time spent
+  maxFrameGapMs: number;
+}
+
+export const defaultHeatmapOptions: HeatmapOptions = {
+  cols: 64,
+  rows: 36,
+  maxFrameGapMs: 1000,
+};
+
+// Which accumulated time to show or export
+export type HeatmapLayer =
+  | {type: 'all'}
+  | {type: 'category'; category: string}
+  | {type: 'track'; serial: number};
+
+export interface TrackDwell {
+  // Unique per record; track ids restart after a seek, serials do not
+  serial: number;
+  trackId: number;
+  category: string;
+  // Timestamps of the first and latest frame the track was detected in
+  firstSeenMs: number;
+  lastSeenMs: number;
+  // Time detected, summed over frames
+  dwellMs: number;
+  // Cells the track spent any time in
+  cellsVisited: number;
+  // Whether the track can still gain time
+  active: boolean;
+}
+
+export interface CategoryDwell {
+  category: string;
+  tracks: number;
+  meanMs: number;
+  medianMs: number;
+  maxMs: number;
+}
+
+export interface HeatmapExport {
+  cols: number;
+  rows: number;
+  // Cell values are milliseconds, row-major from the frame's top-left
+  unit: 'ms';
+  total: number[];
+  categories: Record<string, number[]>;
+  tracks: (TrackDwell & {cells: Record<number, number>})[];
+}
+
+export interface OccupancyHeatmap {
+  /**
+   * Accumulate one frame.
+   * @param tracks The frame's tracks, in frame pixels
+   * @param frameSize The frame's size, to normalize track positions
+   * @param timestampMs The frame's timestamp
+   */
+  update(
+    tracks: Track[],
+    frameSize: {width: number; height: number},
+    timestampMs: number,
+  ): void;
+  // Milliseconds per cell, row-major
+  grid(layer: HeatmapLayer): Float64Array;
+  categories(): string[];
+  // Track records, most dwell first
+  dwell(): TrackDwell[];
+  // Close all track records without clearing time, e.g. after a seek
+  resetTracks(): void;
+  reset(): void;
+  toJSON(): HeatmapExport;
+  getOptions(): HeatmapOptions;
+  setOptions(options: Partial<HeatmapOptions>): void;
+}
+
+// Track records beyond this are dropped, oldest inactive first
+const MAX_TRACK_RECORDS = 500;
+
+interface TrackRecord extends TrackDwell {
+  // Cell index -> ms
+  cells: Map<number, number>;
+}
+
+/**
+ * Dwell statistics per category, over the given track records.
+ */
+export function summarizeDwell(records: TrackDwell[]): CategoryDwell[] {
+  const byCategory = new Map<string, number[]>();
+  for (const record of records) {
+    const times = byCategory.get(record.category) ?? [];
+    times.push(record.dwellMs);
+    byCategory.set(record.category, times);
+  }
+  return [...byCategory.entries()]
+    .map(([category, times]) => {
+      times.sort((a, b) => a - b);
+      const middle = Math.floor(times.length / 2);
+      return {
+        category,
+        tracks: times.length,
+        meanMs: times.reduce((sum, t) => sum + t, 0) / times.length,
+        medianMs:
+          times.length % 2
+            ? times[middle]
+            : (times[middle - 1] + times[middle]) / 2,
+        maxMs: times[times.length - 1],
+      };
+    })
+    .sort((a, b) => a.category.localeCompare(b.category));
+}
+
+export function createOccupancyHeatmap(
+  options?: Partial<HeatmapOptions>,
+): OccupancyHeatmap {
+  let opts: HeatmapOptions = {...defaultHeatmapOptions, ...options};
+  let layers = new Map<string, Float64Array>();
+  let records: TrackRecord[] = [];
+  // Track id -> its open record
+  let live = new Map<number, TrackRecord>();
+  let nextSerial = 1;
+  let lastTimestamp: number | null = null;
+
+  function closeTracks() {
+    for (const record of live.values()) record.active = false;
+    live = new Map();
+  }
+
+  function prune() {
+    let excess = records.length - MAX_TRACK_RECORDS;
+    if (excess <= 0) return;
+    records = records.filter((record) => {
+      if (excess > 0 && !record.active) {
+        excess--;
+        return false;
+      }
+      return true;
+    });
+  }
+
+  function update(
+    tracks: Track[],
+    frameSize: {width: number; height: number},
+    timestampMs: number,
+  ) {
+    const dt = lastTimestamp === null ? 0 : timestampMs - lastTimestamp;
+    lastTimestamp = timestampMs;
+    const counted = dt > 0 && dt <= opts.maxFrameGapMs;
+
+    const alive = new Set<number>();
+    for (const track of tracks) {
+      alive.add(track.id);
+      if (track.detectionIndex < 0) continue;
+      const center = boxCenter(track.bbox);
+      const col = Math.floor((center.x / frameSize.width) * opts.cols);
+      const row = Math.floor((center.y / frameSize.height) * opts.rows);
+      if (col < 0 || col >= opts.cols || row < 0 || row >= opts.rows) {
+        continue;
+      }
+      const cell = row * opts.cols + col;
+
+      let record = live.get(track.id);
+      if (!record) {
+        record = {
+          serial: nextSerial++,
+          trackId: track.id,
+          category: track.category,
+          firstSeenMs: timestampMs,
+          lastSeenMs: timestampMs,
+          dwellMs: 0,
+          cellsVisited: 0,
+          active: true,
+          cells: new Map(),
+        };
+        live.set(track.id, record);
+        records.push(record);
+        prune();
+      }
+      record.lastSeenMs = timestampMs;
+      // A track's first frame has no interval behind it
+      if (!counted || record.firstSeenMs === timestampMs) continue;
+
+      let layer = layers.get(track.category);
+      if (!layer) {
+        layer = new Float64Array(opts.cols * opts.rows);
+        layers.set(track.category, layer);
+      }
+      layer[cell] += dt;
+      record.dwellMs += dt;
+      record.cells.set(cell, (record.cells.get(cell) ?? 0) + dt);
+      record.cellsVisited = record.cells.size;
+    }
+    for (const [trackId, record] of live) {
+      if (alive.has(trackId)) continue;
+      record.active = false;
+      live.delete(trackId);
+    }
+  }
+
+  function grid(layer: HeatmapLayer) {
+    const result = new Float64Array(opts.cols * opts.rows);
+    if (layer.type === 'track') {
+      const record = records.find(({serial}) => serial === layer.serial);
+      for (const [cell, ms] of record?.cells ?? []) result[cell] = ms;
+    } else if (layer.type === 'category') {
+      const values = layers.get(layer.category);
+      if (values) result.set(values);
+    } else {
+      for (const values of layers.values()) {
+        for (let i = 0; i < values.length; i++) result[i] += values[i];
+      }
+    }
+    return result;
+  }
+
+  function dwell(): TrackDwell[] {
+    return records
+      .map(({cells, ...rest}) => ({...rest}))
+      .sort((a, b) => b.dwellMs - a.dwellMs);
+  }
+
+  function reset() {
+    layers = new Map();
+    records = [];
+    live = new Map();
+    lastTimestamp = null;
+  }
+
+  return {
+    update,
+    grid,
+    categories: () => [...layers.keys()].sort(),
+    dwell,
+    resetTracks() {
+      closeTracks();
+      lastTimestamp = null;
+    },
+    reset,
+    toJSON() {
+      const categories: Record<string, number[]> = {};
+      for (const [category, values] of layers) {
+        categories[category] = Array.from(values);
+      }
+      return {
+        cols: opts.cols,
+        rows: opts.rows,
+        unit: 'ms',
+        total: Array.from(grid({type: 'all'})),
+        categories,
+        tracks: records.map(({cells, ...rest}) => ({
+          ...rest,
+          cells: Object.fromEntries(cells),
+        })),
+      };
+    },
+    getOptions: () => ({...opts}),
+    setOptions(next) {
+      const resized =
+        (next.cols !== undefined && next.cols !== opts.cols) ||
+        (next.rows !== undefined && next.rows !== opts.rows);
+      opts = {...opts, ...next};
+      if (resized) reset();
+    },
+  };
+}
+
+/**
+ * Color for a heat value from 0 (cold) to 1 (hot), as RGBA bytes. Cold is
+ * transparent blue, hot is opaque red through green and yellow.
+ */
+export function heatColor(value: number): [number, number, number, number] {
+  const v = Math.min(1, Math.max(0, value));
+  const stops = [
+    [0, 0, 255],
+    [0, 255, 0],
+    [255, 255, 0],
+    [255, 0, 0],
+  ];
+  const position = v * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(position));
+  const t = position - i;
+  const [r, g, b] = stops[i].map((c, k) =>
+    Math.round(c + (stops[i + 1][k] - c) * t),
+  );
+  return [r, g, b, Math.round(Math.sqrt(v) * 200)];
+}
+
+/**
+ * Render a grid to a canvas of one pixel per cell. Values are scaled to the
+ * grid's maximum; empty cells are transparent.
+ */
+export function renderHeatmap(
+  values: Float64Array,
+  cols: number,
+  rows: number,
+): OffscreenCanvas {
+  const canvas = new OffscreenCanvas(cols, rows);
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(cols, rows);
+  const max = values.reduce((a, b) => Math.max(a, b), 0);
+  if (max > 0) {
+    values.forEach((value, i) => {
+      if (value <= 0) return;
+      image.data.set(heatColor(value / max), i * 4);
+    });
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+}
+
+/**
+ * Draw a rendered heatmap over the frame as the live view shows it.
+ * @param ctx A context in screen coordinates
+ * @param view The viewport the frame is shown with
+ * @param heatmap A canvas from `renderHeatmap`
+ */
+export function drawHeatmap(
+  ctx: OverlayContext,
+  view: Viewport,
+  heatmap: OffscreenCanvas,
+) {
+  ctx.save();
+  if (view.mirrored) {
+    ctx.translate(view.screenWidth, 0);
+    ctx.scale(-1, 1);
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(
+    heatmap,
+    view.offsetX,
+    view.offsetY,
+    view.frameWidth * view.scale,
+    view.frameHeight * view.scale,
+  );
+  ctx.restore();
+}
@@ -18,6 +18,7 @@
 // limitations under the License.
 
 import {useSetAtom} from 'jotai';
+import {useEffect, useState} from 'react';
 import {
   BoundingBoxes2DAtom,
   BoundingBoxes3DAtom,
@@ -30,6 +31,9 @@ import {
   PointsAtom,
   ShareStream,
 } from './atoms.tsx';
+import {EventBus, SessionEvent} from './events.tsx';
+import {PrivacyGuard, PrivacyState} from './privacy.tsx';
+import {RequestScheduler, SchedulerState} from './requestScheduler.tsx';
 
 export function useResetState() {
   const setImageSrc = useSetAtom(ImageSrcAtom);
@@ -59,3 +63,40 @@ export function useResetState() {
     setImageSent(false);
   };
 }
+
+/**
+ * Subscribe to a request scheduler's state. While rate limited, the
+ * component also re-renders every second so countdowns stay current.
+ */
+export function useRequestSchedulerState(scheduler: RequestScheduler) {
+  const [state, setState] = useState<SchedulerState>(() =>
+    scheduler.getState(),
+  );
+  const [, setNow] = useState(0);
+
+  useEffect(() => scheduler.subscribe(setState), [scheduler]);
+
+  useEffect(() => {
+    if (state.rateLimitedUntil === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state.rateLimitedUntil]);
+
+  return state;
+}
+
+/** Subscribe to a privacy guard's settings, consent and audit list. */
+export function usePrivacyState(guard: PrivacyGuard) {
+  const [state, setState] = useState<PrivacyState>(() => guard.getState());
+  useEffect(() => guard.subscribe(setState), [guard]);
+  return state;
+}
+
+/** Subscribe to an event bus's log. */
+export function useSessionEvents(bus: EventBus) {
+  const [events, setEvents] = useState<readonly SessionEvent[]>(() =>
+    bus.events(),
+  );
+  useEffect(() => bus.subscribe(setEvents), [bus]);
+  return events;
+}
@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {
+  HandLandmarkerResult,
+  Landmark,
+  NormalizedLandmark,
+  PoseLandmarkerResult,
+} from '@mediapipe/tasks-vision';
+
+export type Handedness = 'Left' | 'Right';
+
+export interface HandData {
+  // Position of the hand in the landmarker output for this frame
+  index: number;
+  handedness: Handedness;
+  handednessScore: number;
+  // 21 landmarks normalized to the frame (x, y in 0-1, z relative to wrist)
+  landmarks: NormalizedLandmark[];
+  // The same 21 landmarks in meters, centered on the hand
+  worldLandmarks: Landmark[];
+}
+
+export const HAND_LANDMARK_NAMES = [
+  'wrist',
+  'thumb_cmc',
+  'thumb_mcp',
+  'thumb_ip',
+  'thumb_tip',
+  'index_finger_mcp',
+  'index_finger_pip',
+  'index_finger_dip',
+  'index_finger_tip',
+  'middle_finger_mcp',
+  'middle_finger_pip',
+  'middle_finger_dip',
+  'middle_finger_tip',
+  'ring_finger_mcp',
+  'ring_finger_pip',
+  'ring_finger_dip',
+  'ring_finger_tip',
+  'pinky_mcp',
+  'pinky_pip',
+  'pinky_dip',
+  'pinky_tip',
+];
+
+/**
+ * Convert a HandLandmarker result into one entry per detected hand.
+ * MediaPipe labels handedness assuming a mirrored (selfie) image; pass
+ * `inputMirrored = false` when the raw camera frame is fed to the model so
+ * the labels match the person's actual hands.
+ * @param result The HandLandmarker result for a single frame
+ * @param inputMirrored Whether the frame given to the model was mirrored
+ * @returns The per-hand landmark data
+ */
+export function toHandData(
+  result: HandLandmarkerResult | undefined,
+  inputMirrored = false,
+): HandData[] {
+  if (!result?.landmarks) return [];
+  return result.landmarks.map((landmarks, index) => {
+    const category = result.handedness?.[index]?.[0];
+    let handedness: Handedness =
+      category?.categoryName === 'Left' ? 'Left' : 'Right';
+    if (!inputMirrored) {
+      handedness = handedness === 'Left' ? 'Right' : 'Left';
+    }
+    return {
+      index,
+      handedness,
+      handednessScore: category?.score ?? 0,
+      landmarks,
+      worldLandmarks: result.worldLandmarks?.[index] ?? [],
+    };
+  });
+}
+
+// Landmarks whose visibility falls below this are treated as not visible
+export const MIN_LANDMARK_VISIBILITY = 0.5;
+
+export type JointName =
+  | 'left_elbow'
+  | 'right_elbow'
+  | 'left_shoulder'
+  | 'right_shoulder'
+  | 'left_hip'
+  | 'right_hip'
+  | 'left_knee'
+  | 'right_knee';
+
+// Each joint angle is measured at the middle landmark, between the segments
+// to the first and last landmark (indices into the 33-point pose model).
+export const JOINT_LANDMARKS: Record<JointName, [number, number, number]> = {
+  left_elbow: [11, 13, 15],
+  right_elbow: [12, 14, 16],
+  left_shoulder: [13, 11, 23],
+  right_shoulder: [14, 12, 24],
+  left_hip: [11, 23, 25],
+  right_hip: [12, 24, 26],
+  left_knee: [23, 25, 27],
+  right_knee: [24, 26, 28],
+};
+
+export interface PoseData {
+  index: number;
+  // 33 landmarks normalized to the frame, each with its own visibility
+  landmarks: NormalizedLandmark[];
+  // The same 33 landmarks in meters, centered between the hips
+  worldLandmarks: Landmark[];
+  // Joint angles in degrees, or null when a landmark is not visible
+  angles: Record<JointName, number | null>;
+}
+
+function isVisible(landmark: NormalizedLandmark | Landmark | undefined) {
+  return (
+    !!landmark &&
+    (landmark.visibility === undefined ||
+      landmark.visibility >= MIN_LANDMARK_VISIBILITY)
+  );
+}
+
+/**
+ * Angle at `b` between the segments b->a and b->c, in degrees (0-180).
+ * @returns The angle, or null if either segment has zero length
+ */
+export function angleBetween(
+  a: {x: number; y: number; z?: number},
+  b: {x: number; y: number; z?: number},
+  c: {x: number; y: number; z?: number},
+): number | null {
+  const v1 = [a.x - b.x, a.y - b.y, (a.z ?? 0) - (b.z ?? 0)];
+  const v2 = [c.x - b.x, c.y - b.y, (c.z ?? 0) - (b.z ?? 0)];
+  const length1 = Math.hypot(...v1);
+  const length2 = Math.hypot(...v2);
+  if (length1 === 0 || length2 === 0) return null;
+  const dot = v1[0] * v2[0] + v1[1] * v2[1] + v1[2] * v2[2];
+  const cos = Math.min(1, Math.max(-1, dot / (length1 * length2)));
+  return (Math.acos(cos) * 180) / Math.PI;
+}
+
+/**
+ * Compute joint angles for one person. World landmarks are used when present
+ * since they are metric and unaffected by perspective; visibility always
+ * comes from the normalized landmarks.
+ */
+export function computeJointAngles(
+  landmarks: NormalizedLandmark[],
+  worldLandmarks: Landmark[] = [],
+): Record<JointName, number | null> {
+  const points =
+    worldLandmarks.length === landmarks.length ? worldLandmarks : landmarks;
+  const angles = {} as Record<JointName, number | null>;
+  for (const joint of Object.keys(JOINT_LANDMARKS) as JointName[]) {
+    const [a, b, c] = JOINT_LANDMARKS[joint];
+    angles[joint] =
+      isVisible(landmarks[a]) &&
+      isVisible(landmarks[b]) &&
+      isVisible(landmarks[c])
+        ? angleBetween(points[a], points[b], points[c])
+        : null;
+  }
+  return angles;
+}
+
+/**
+ * Convert a PoseLandmarker result into one entry per detected person.
+ * @param result The PoseLandmarker result for a single frame
+ * @returns The per-person landmarks and joint angles
+ */
+export function toPoseData(
+  result: PoseLandmarkerResult | undefined,
+): PoseData[] {
+  if (!result?.landmarks) return [];
+  return result.landmarks.map((landmarks, index) => {
+    const worldLandmarks = result.worldLandmarks?.[index] ?? [];
+    return {
+      index,
+      landmarks,
+      worldLandmarks,
+      angles: computeJointAngles(landmarks, worldLandmarks),
+    };
+  });
+}
@@ -0,0 +1,319 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * The per-frame detect/track/draw loop, as a controller object.
+ *
+ * Everything the loop needs between frames lives in the controller rather
+ * than in module globals, so several trackers can run on one page. The
+ * source and viewport are pulled through getters on every frame and the
+ * backend can be swapped at any time, so callers never need to restart the
+ * loop to change what it runs on.
+ *
+ * Backends may detect asynchronously (e.g. in a worker). At most one
+ * detection is in flight: frames that arrive meanwhile are dropped rather
+ * than queued, so results never lag further and further behind the video.
+ */
+
+import {VisionBackend, VisionResult} from './backends.tsx';
+import {Metrics} from './metrics.tsx';
+import {getOverlayPresenter} from './overlayPresenter.tsx';
+import {createMonotonicClock, InputSource} from './sources.tsx';
+import {createTracker, Track, Tracker} from './tracker.tsx';
+import {OverlayContext, sameViewport, Viewport} from './viewport.tsx';
+
+export interface FrameResult {
+  source: InputSource;
+  // Monotonic timestamp the frame was detected with
+  timestampMs: number;
+  // Media time of the frame (wall clock for live sources)
+  mediaTimeMs: number;
+  result: VisionResult;
+  tracks: Track[];
+  // Time from submitting the frame to the backend until its result arrived
+  inferenceMs: number;
+  // True if this frame does not follow on from the previous one (seek,
+  // new source, new backend); tracks were restarted
+  discontinuity: boolean;
+}
+
+export interface RenderLoopOptions {
+  canvas: HTMLCanvasElement;
+  getSource: () => InputSource | null;
+  getViewport: (source: InputSource) => Viewport;
+  tracker?: Tracker;
+  // Receives frame timings and decides which captured frames to detect
+  metrics?: Metrics;
+  // Called for every detected frame, before it is drawn
+  onFrame?: (frame: FrameResult) => void;
+  // Draws the overlay; `frame` is null until the first detection
+  draw: (
+    ctx: OverlayContext,
+    view: Viewport,
+    frame: FrameResult | null,
+  ) => void;
+  // Called on every animation frame, whether or not a new frame arrived
+  onTick?: (source: InputSource | null) => void;
+  // Redraw on every animation frame while this returns true, not only when
+  // a new result arrives; for overlays that follow the video between
+  // detections
+  redrawEveryFrame?: () => boolean;
+}
+
+export type RenderLoopState = 'stopped' | 'running' | 'paused';
+
+export interface RenderLoop {
+  start(): void;
+  // Stop detecting but keep the last overlay on screen
+  pause(): void;
+  resume(): void;
+  // Stop and clear the overlay
+  stop(): void;
+  getState(): RenderLoopState;
+  // Takes effect from the next frame; tracks are restarted
+  setBackend(backend: VisionBackend | null): void;
+  getBackend(): VisionBackend | null;
+  // Restart tracking, e.g. after the source changed
+  resetTracking(): void;
+  // Draw the last frame again with current state (mode, labels, ...)
+  redraw(): void;
+  getViewport(): Viewport | null;
+  getStats(): RenderLoopStats;
+  /**
+   * The last frame's tracks moved along their motion to the source's
+   * current time, so that overlays keep following objects between
+   * detections. Empty until the first detection.
+   */
+  predictTracks(): Track[];
+  /**
+   * Draw the overlay for the last frame into another context, e.g. for a
+   * snapshot. The context must already use screen coordinates.
+   */
+  renderOverlay(ctx: OverlayContext, view: Viewport): void;
+}
+
+export interface RenderLoopStats {
+  // Frames skipped because the backend was still busy with an earlier one
+  droppedFrames: number;
+  inFlight: boolean;
+}
+
+// Tracks are not extrapolated further than this past their last detection
+const MAX_PREDICTION_MS = 500;
+
+export function createRenderLoop(options: RenderLoopOptions): RenderLoop {
+  const {canvas, getSource, getViewport, metrics} = options;
+  // Rasterizes the overlay, in a worker where the browser allows
+  const presenter = getOverlayPresenter(canvas);
+  const tracker = options.tracker ?? createTracker();
+  let state: RenderLoopState = 'stopped';
+  let animationId: number | undefined;
+  let backend: VisionBackend | null = null;
+  // One clock for the loop's lifetime: backends may keep their MediaPipe
+  // task across sources, so timestamps must never go backwards
+  const clock = createMonotonicClock();
+  let lastSource: InputSource | null = null;
+  let lastMediaTime = -1;
+  let pendingReset = true;
+  let lastFrame: FrameResult | null = null;
+  let drawnViewport: Viewport | null = null;
+  // Bumped on every reset so results of detections started before it are
+  // discarded
+  let generation = 0;
+  let inFlight = false;
+  let droppedFrames = 0;
+  let lastDroppedTime = -1;
+
+  function resetTracking() {
+    generation++;
+    inFlight = false;
+    tracker.reset();
+    clock.restart();
+    lastMediaTime = -1;
+    lastFrame = null;
+    pendingReset = true;
+    drawnViewport = null;
+  }
+
+  function detect(source: InputSource) {
+    const mediaTimeMs = source.live ? performance.now() : lastMediaTime;
+    // File sources are timestamped with media time so that replays of a clip
+    // see identical timestamps; the clock keeps them increasing.
+    const {timestampMs, discontinuity} = clock.next(mediaTimeMs);
+    if (discontinuity) tracker.reset();
+    if (!backend) return;
+    const backendId = backend.id;
+    const detectStart = performance.now();
+
+    function accept(result: VisionResult) {
+      const tracks = tracker.update(result.detections, timestampMs);
+      const now = performance.now();
+      const frame = {
+        source,
+        timestampMs,
+        mediaTimeMs,
+        result,
+        tracks,
+        inferenceMs: now - detectStart,
+        discontinuity: discontinuity || pendingReset,
+      };
+      metrics?.recordInference(backendId, frame.inferenceMs, now);
+      pendingReset = false;
+      options.onFrame?.(frame);
+      lastFrame = frame;
+      drawnViewport = null;
+    }
+
+    let output: VisionResult | Promise<VisionResult>;
+    try {
+      output = backend.detect(source.element, timestampMs);
+      if (!(output instanceof Promise)) accept(output);
+    } catch (e) {
+      // As with a failed async detection, the next frame tries again
+      console.error('Detection failed', e);
+      return;
+    }
+    if (!(output instanceof Promise)) return;
+    const startedIn = generation;
+    inFlight = true;
+    output
+      .then((result) => {
+        if (startedIn === generation) accept(result);
+      })
+      .catch((e) => {
+        if (startedIn === generation) console.error('Detection failed', e);
+      })
+      .finally(() => {
+        if (startedIn === generation) inFlight = false;
+      });
+  }
+
+  function drawOverlay(view: Viewport) {
+    drawnViewport = view;
+    const ctx = presenter.begin(view);
+    // Cleared here rather than in `draw`, so that `renderOverlay` can draw
+    // over a frame
+    ctx.clearRect(0, 0, view.screenWidth, view.screenHeight);
+    options.draw(ctx, view, lastFrame);
+    presenter.present();
+  }
+
+  function tick() {
+    animationId = undefined;
+    if (state !== 'running') return;
+    const now = performance.now();
+    metrics?.recordTick(now);
+    const source = getSource();
+    if (source !== lastSource) {
+      lastSource = source;
+      resetTracking();
+    }
+    if (source?.ready() && source.currentTimeMs() !== lastMediaTime) {
+      const currentTime = source.currentTimeMs();
+      if (!inFlight) {
+        lastMediaTime = currentTime;
+        metrics?.recordCapture(now);
+        // Never skip a paused file frame: it would not be detected at all
+        if (source.isPaused() || !metrics || metrics.shouldDetect()) {
+          detect(source);
+        }
+      } else if (currentTime !== lastDroppedTime) {
+        // Whichever frame is current once the backend is free gets detected
+        // next; everything in between is skipped.
+        lastDroppedTime = currentTime;
+        droppedFrames++;
+        metrics?.recordDropped(now);
+      }
+    }
+    // Redraw on new results, and when the view is resized or re-fitted
+    // while the source is paused
+    const view = source?.ready() ? getViewport(source) : null;
+    if (
+      view &&
+      (!sameViewport(view, drawnViewport) || options.redrawEveryFrame?.())
+    ) {
+      drawOverlay(view);
+    }
+    options.onTick?.(source);
+    animationId = window.requestAnimationFrame(tick);
+  }
+
+  function cancel() {
+    if (animationId !== undefined) {
+      window.cancelAnimationFrame(animationId);
+      animationId = undefined;
+    }
+  }
+
+  return {
+    start() {
+      if (state === 'running') return;
+      state = 'running';
+      tick();
+    },
+    pause() {
+      if (state !== 'running') return;
+      state = 'paused';
+      cancel();
+    },
+    resume() {
+      if (state !== 'paused') return;
+      state = 'running';
+      tick();
+    },
+    stop() {
+      state = 'stopped';
+      cancel();
+      resetTracking();
+      lastSource = null;
+      presenter.clear();
+    },
+    getState: () => state,
+    setBackend(next) {
+      backend = next;
+      resetTracking();
+    },
+    getBackend: () => backend,
+    resetTracking,
+    redraw() {
+      drawnViewport = null;
+      // While running, the next tick redraws
+      if (state === 'running') return;
+      const source = getSource();
+      if (!source?.ready()) return;
+      drawOverlay(getViewport(source));
+    },
+    getViewport: () => drawnViewport,
+    getStats: () => ({droppedFrames, inFlight}),
+    predictTracks() {
+      const source = getSource();
+      if (!lastFrame || !source) return [];
+      // Live frames carry the wall clock as media time
+      const now = source.live ? performance.now() : source.currentTimeMs();
+      const elapsed = Math.min(
+        Math.max(0, now - lastFrame.mediaTimeMs),
+        MAX_PREDICTION_MS,
+      );
+      return tracker.predict(lastFrame.timestampMs + elapsed);
+    },
+    renderOverlay(ctx, view) {
+      options.draw(ctx, view, lastFrame);
+    },
+  };
+}
@@ -0,0 +1,297 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Pipeline performance metrics and adaptive detection scheduling.
+ *
+ * The render loop reports every animation frame, captured frame, detection
+ * and dropped frame; Gemini calls report when they are queued, sent and
+ * answered. From the render frame rate the collector decides how many
+ * captured frames to skip between detections so that the page holds a
+ * target FPS. Snapshots are plain JSON, so runs on different machines can
+ * be compared.
+ */
+
+// Rolling window for rates
+const RATE_WINDOW_MS = 1000;
+// How often, and how far, the adaptive scheduler may change the skip rate
+const ADAPT_INTERVAL_MS = 500;
+const MAX_DETECT_EVERY = 8;
+// Frame rate must stay this long above target before skipping less
+const RECOVER_AFTER_MS = 2000;
+
+export interface MetricsOptions {
+  // Render frames per second to hold; should not exceed the display rate
+  targetFps: number;
+  // Skip detection frames when the render rate falls below target
+  adaptive: boolean;
+  // Latency samples kept per series
+  sampleWindow: number;
+}
+
+export const defaultMetricsOptions: MetricsOptions = {
+  targetFps: 30,
+  adaptive: true,
+  sampleWindow: 120,
+};
+
+export interface LatencyStats {
+  // Total samples recorded, not just those in the window
+  count: number;
+  lastMs: number;
+  meanMs: number;
+  p95Ms: number;
+  maxMs: number;
+}
+
+export interface MetricsSnapshot {
+  capturedAt: string;
+  uptimeMs: number;
+  captureFps: number;
+  renderFps: number;
+  detectionFps: number;
+  // Keyed by backend id
+  inference: Record<string, LatencyStats>;
+  // Frames skipped because the backend was still busy
+  droppedFrames: number;
+  // Frames skipped by the adaptive scheduler
+  skippedFrames: number;
+  scheduler: {targetFps: number; adaptive: boolean; detectEvery: number};
+  gemini: {
+    roundTrip: LatencyStats;
+    // Requests waiting to be sent
+    queueDepth: number;
+    inFlight: number;
+    failed: number;
+  };
+}
+
+export interface RequestTimer {
+  // The request left the queue and was sent
+  started(): void;
+  // The response arrived (or the request failed or was abandoned)
+  finished(ok?: boolean): void;
+}
+
+export interface Metrics {
+  recordTick(nowMs: number): void;
+  // A captured frame while the backend is free; only these count towards
+  // the adaptive skip rate
+  recordCapture(nowMs: number): void;
+  // Whether the captured frame just recorded should be detected
+  shouldDetect(): boolean;
+  recordInference(backendId: string, latencyMs: number, nowMs: number): void;
+  // A captured frame dropped because the backend was still busy
+  recordDropped(nowMs: number): void;
+  // Track a Gemini request from the moment it is queued
+  trackRequest(): RequestTimer;
+  getOptions(): MetricsOptions;
+  setOptions(options: Partial<MetricsOptions>): void;
+  snapshot(): MetricsSnapshot;
+  reset(): void;
+}
+
+function createRateCounter() {
+  const times: number[] = [];
+  return {
+    add(nowMs: number) {
+      times.push(nowMs);
+      while (times.length && nowMs - times[0] > RATE_WINDOW_MS) times.shift();
+    },
+    rate(nowMs: number) {
+      while (times.length && nowMs - times[0] > RATE_WINDOW_MS) times.shift();
+      return (times.length * 1000) / RATE_WINDOW_MS;
+    },
+    clear() {
+      times.length = 0;
+    },
+  };
+}
+
+function createLatencySeries(windowSize: () => number) {
+  let samples: number[] = [];
+  let count = 0;
+  return {
+    add(latencyMs: number) {
+      count++;
+      samples.push(latencyMs);
+      if (samples.length > windowSize()) samples = samples.slice(-windowSize());
+    },
+    stats(): LatencyStats {
+      if (samples.length === 0) {
+        return {count, lastMs: 0, meanMs: 0, p95Ms: 0, maxMs: 0};
+      }
+      const sorted = [...samples].sort((a, b) => a - b);
+      const sum = sorted.reduce((total, value) => total + value, 0);
+      return {
+        count,
+        lastMs: samples[samples.length - 1],
+        meanMs: sum / sorted.length,
+        p95Ms:
+          sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+        maxMs: sorted[sorted.length - 1],
+      };
+    },
+  };
+}
+
+export function createMetrics(options?: Partial<MetricsOptions>): Metrics {
+  let opts: MetricsOptions = {...defaultMetricsOptions, ...options};
+  const windowSize = () => opts.sampleWindow;
+  let startedAt = performance.now();
+  const capture = createRateCounter();
+  const render = createRateCounter();
+  const detection = createRateCounter();
+  let inference = new Map<string, ReturnType<typeof createLatencySeries>>();
+  let roundTrip = createLatencySeries(windowSize);
+  let droppedFrames = 0;
+  let skippedFrames = 0;
+  let queueDepth = 0;
+  let inFlight = 0;
+  let failed = 0;
+  let captureCount = 0;
+  let detectEvery = 1;
+  let lastAdaptMs = 0;
+  let aboveTargetSince: number | null = null;
+
+  function adapt(nowMs: number) {
+    if (!opts.adaptive) {
+      detectEvery = 1;
+      return;
+    }
+    if (nowMs - lastAdaptMs < ADAPT_INTERVAL_MS) return;
+    lastAdaptMs = nowMs;
+    // Wait for a full window of frames before judging the rate
+    if (nowMs - startedAt < RATE_WINDOW_MS) return;
+    const fps = render.rate(nowMs);
+    if (fps < opts.targetFps * 0.9) {
+      aboveTargetSince = null;
+      detectEvery = Math.min(MAX_DETECT_EVERY, detectEvery + 1);
+    } else if (fps >= opts.targetFps * 0.98 && detectEvery > 1) {
+      // Only skip less after holding the target for a while, otherwise the
+      // rate oscillates between two settings
+      aboveTargetSince ??= nowMs;
+      if (nowMs - aboveTargetSince >= RECOVER_AFTER_MS) {
+        aboveTargetSince = null;
+        detectEvery--;
+      }
+    }
+  }
+
+  function reset() {
+    startedAt = performance.now();
+    capture.clear();
+    render.clear();
+    detection.clear();
+    inference = new Map();
+    roundTrip = createLatencySeries(windowSize);
+    droppedFrames = 0;
+    skippedFrames = 0;
+    failed = 0;
+    captureCount = 0;
+    detectEvery = 1;
+    aboveTargetSince = null;
+  }
+
+  return {
+    recordTick(nowMs) {
+      render.add(nowMs);
+      adapt(nowMs);
+    },
+    recordCapture(nowMs) {
+      capture.add(nowMs);
+      captureCount++;
+    },
+    shouldDetect() {
+      if (captureCount % detectEvery === 0) return true;
+      skippedFrames++;
+      return false;
+    },
+    recordInference(backendId, latencyMs, nowMs) {
+      detection.add(nowMs);
+      let series = inference.get(backendId);
+      if (!series) {
+        series = createLatencySeries(windowSize);
+        inference.set(backendId, series);
+      }
+      series.add(latencyMs);
+    },
+    recordDropped(nowMs) {
+      capture.add(nowMs);
+      droppedFrames++;
+    },
+    trackRequest() {
+      let state: 'queued' | 'running' | 'done' = 'queued';
+      let sentAt = 0;
+      queueDepth++;
+      return {
+        started() {
+          if (state !== 'queued') return;
+          state = 'running';
+          sentAt = performance.now();
+          queueDepth--;
+          inFlight++;
+        },
+        finished(ok = true) {
+          if (state === 'done') return;
+          if (state === 'queued') {
+            queueDepth--;
+          } else {
+            inFlight--;
+            if (ok) roundTrip.add(performance.now() - sentAt);
+          }
+          if (!ok) failed++;
+          state = 'done';
+        },
+      };
+    },
+    getOptions: () => opts,
+    setOptions(changes) {
+      opts = {...opts, ...changes};
+      if (!opts.adaptive) detectEvery = 1;
+    },
+    snapshot() {
+      const now = performance.now();
+      return {
+        capturedAt: new Date().toISOString(),
+        uptimeMs: now - startedAt,
+        captureFps: capture.rate(now),
+        renderFps: render.rate(now),
+        detectionFps: detection.rate(now),
+        inference: Object.fromEntries(
+          [...inference].map(([id, series]) => [id, series.stats()]),
+        ),
+        droppedFrames,
+        skippedFrames,
+        scheduler: {
+          targetFps: opts.targetFps,
+          adaptive: opts.adaptive,
+          detectEvery,
+        },
+        gemini: {
+          roundTrip: roundTrip.stats(),
+          queueDepth,
+          inFlight,
+          failed,
+        },
+      };
+    },
+    reset,
+  };
+}
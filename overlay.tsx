@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Drawing helpers shared by the overlay's layers. Everything is drawn in
+ * screen coordinates, see `viewport.tsx`.
+ */
+
+import {OverlayContext} from './viewport.tsx';
+
+/**
+ * Draw a label on a solid background. Lines are separated by ", ".
+ * @param position Whether the label sits above (x, y), or below it
+ */
+export function drawLabel(
+  label: string,
+  x: number,
+  y: number,
+  ctx: OverlayContext,
+  color = '#3B68FF',
+  position: 'top' | 'bottom' = 'top',
+) {
+  ctx.font = '16px Space Mono';
+  const lines = label.split(', ');
+  let maxWidth = 0;
+  lines.forEach((line) => {
+    const width = ctx.measureText(line).width;
+    if (width > maxWidth) {
+      maxWidth = width;
+    }
+  });
+
+  const lineHeight = 20;
+  const bgHeight = lines.length * lineHeight + 8;
+  const bgWidth = maxWidth + 16;
+  let bgX = x;
+  let bgY;
+
+  if (position === 'top') {
+    bgY = y > bgHeight ? y - bgHeight : y;
+  } else {
+    bgY = y;
+  }
+
+  ctx.fillStyle = color;
+  ctx.fillRect(bgX, bgY, bgWidth, bgHeight);
+  ctx.fillStyle = color === '#FFFF00' ? '#000000' : '#FFFFFF';
+  ctx.textBaseline = 'top';
+  lines.forEach((line, index) => {
+    ctx.fillText(line, bgX + 8, bgY + 4 + index * lineHeight);
+  });
+}
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Puts the render loop's overlay on screen.
+ *
+ * Where the browser allows, the overlay canvas is handed to a worker
+ * (overlayWorker.tsx) and rasterized there: the loop draws into a recording
+ * context, and only the display list crosses threads. Otherwise, or if the
+ * worker fails to start, the overlay is drawn on the main thread into an
+ * OffscreenCanvas and shown as a single bitmap. Either way a half-drawn
+ * overlay is never composited.
+ */
+
+import {
+  createDisplayListRecorder,
+  DisplayList,
+  replayDisplayList,
+} from './displayList.tsx';
+import {OverlayContext, prepareCanvas, Viewport} from './viewport.tsx';
+import {
+  OverlayWorkerRequest,
+  OverlayWorkerResponse,
+} from './workerProtocol.tsx';
+
+export interface OverlayPresenter {
+  /**
+   * Start drawing an overlay.
+   * @param view The viewport to draw for
+   * @returns A context that draws in screen coordinates
+   */
+  begin(view: Viewport): OverlayContext;
+  // Show what was drawn since `begin`
+  present(): void;
+  clear(): void;
+}
+
+interface PendingDraw {
+  view: Viewport;
+  list: DisplayList;
+}
+
+function closeBitmaps(list: DisplayList) {
+  for (const bitmap of list.bitmaps) bitmap?.close();
+}
+
+function createLocalPresenter(canvas: HTMLCanvasElement): OverlayPresenter {
+  const offscreen =
+    typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(1, 1) : null;
+  const bitmaps = offscreen ? canvas.getContext('bitmaprenderer') : null;
+  const target = offscreen && bitmaps ? offscreen : canvas;
+  const ctx = target.getContext('2d') as OverlayContext;
+
+  return {
+    begin(view) {
+      prepareCanvas(target, ctx, view);
+      return ctx;
+    },
+    present() {
+      bitmaps?.transferFromImageBitmap(offscreen!.transferToImageBitmap());
+    },
+    clear() {
+      if (bitmaps) {
+        bitmaps.transferFromImageBitmap(null);
+      } else {
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+      }
+    },
+  };
+}
+
+function createWorkerPresenter(canvas: HTMLCanvasElement): OverlayPresenter {
+  const recorder = createDisplayListRecorder();
+  const worker = new Worker(new URL('./overlayWorker.tsx', import.meta.url), {
+    type: 'module',
+  });
+  // Drawing on the main thread, after the worker failed to start
+  let fallback: OverlayPresenter | null = null;
+  // Whether the worker owns the canvas
+  let ready = false;
+  let view: Viewport | null = null;
+  // Bumped for every overlay presented, so one overtaken while its images
+  // were read is dropped
+  let latest = 0;
+  // A draw is with the worker. Newer overlays wait in `queued`, the newest
+  // replacing any older one, so the worker never falls behind.
+  let busy = false;
+  let queued: PendingDraw | null = null;
+
+  function send(request: OverlayWorkerRequest, transfer: Transferable[] = []) {
+    worker.postMessage(request, transfer);
+  }
+
+  function draw(pending: PendingDraw) {
+    busy = true;
+    const {view, list} = pending;
+    send(
+      {
+        type: 'draw',
+        width: Math.round(view.screenWidth * view.devicePixelRatio),
+        height: Math.round(view.screenHeight * view.devicePixelRatio),
+        list,
+      },
+      list.bitmaps.filter((bitmap) => bitmap !== null),
+    );
+  }
+
+  function enqueue(next: PendingDraw) {
+    if (queued) closeBitmaps(queued.list);
+    queued = next;
+  }
+
+  worker.onmessage = (event: MessageEvent<OverlayWorkerResponse>) => {
+    const response = event.data;
+    if (response.type === 'ready') {
+      const offscreen = canvas.transferControlToOffscreen();
+      send({type: 'init', canvas: offscreen}, [offscreen]);
+      ready = true;
+    } else {
+      busy = false;
+      if (response.type === 'error') {
+        console.error('Overlay drawing failed', response.message);
+      }
+    }
+    if (queued && !busy) {
+      const next = queued;
+      queued = null;
+      draw(next);
+    }
+  };
+  worker.onerror = (event) => {
+    if (ready) {
+      console.error('Overlay worker failed', event.message);
+      return;
+    }
+    // The canvas is still ours; draw the latest overlay here instead
+    console.warn('Drawing the overlay on the main thread', event.message);
+    worker.terminate();
+    fallback = createLocalPresenter(canvas);
+    if (queued) {
+      replayDisplayList(fallback.begin(queued.view), queued.list);
+      fallback.present();
+      queued = null;
+    }
+  };
+
+  return {
+    begin(next) {
+      if (fallback) return fallback.begin(next);
+      view = next;
+      const dpr = next.devicePixelRatio;
+      recorder.ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      return recorder.ctx;
+    },
+    present() {
+      if (fallback) {
+        fallback.present();
+        return;
+      }
+      const id = ++latest;
+      const drawnView = view!;
+      recorder.finish().then((list) => {
+        if (id !== latest) {
+          closeBitmaps(list);
+        } else if (fallback) {
+          replayDisplayList(fallback.begin(drawnView), list);
+          fallback.present();
+        } else if (ready && !busy) {
+          draw({view: drawnView, list});
+        } else {
+          enqueue({view: drawnView, list});
+        }
+      });
+    },
+    clear() {
+      if (fallback) {
+        fallback.clear();
+        return;
+      }
+      latest++;
+      if (queued) closeBitmaps(queued.list);
+      queued = null;
+      if (ready) send({type: 'clear'});
+    },
+  };
+}
+
+const presenters = new WeakMap<HTMLCanvasElement, OverlayPresenter>();
+
+/**
+ * The presenter for an overlay canvas. There is one per canvas, since a
+ * canvas can only be handed to a worker once.
+ */
+export function getOverlayPresenter(
+  canvas: HTMLCanvasElement,
+): OverlayPresenter {
+  let presenter = presenters.get(canvas);
+  if (!presenter) {
+    presenter =
+      typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      'transferControlToOffscreen' in canvas
+        ? createWorkerPresenter(canvas)
+        : createLocalPresenter(canvas);
+    presenters.set(canvas, presenter);
+  }
+  return presenter;
+}
@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Worker that rasterizes the overlay. It owns the overlay canvas, handed
+ * over with transferControlToOffscreen, and draws the display lists the
+ * render loop records on the main thread.
+ */
+
+import {replayDisplayList} from './displayList.tsx';
+import {
+  OverlayWorkerRequest,
+  OverlayWorkerResponse,
+} from './workerProtocol.tsx';
+
+let canvas: OffscreenCanvas | null = null;
+
+function respond(response: OverlayWorkerResponse) {
+  self.postMessage(response);
+}
+
+self.onmessage = (event: MessageEvent<OverlayWorkerRequest>) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'init':
+        canvas = request.canvas;
+        return;
+      case 'draw': {
+        if (!canvas) throw new Error('No overlay canvas.');
+        // Setting the size also clears the canvas and resets the context,
+        // matching the fresh state the list was recorded against
+        canvas.width = request.width;
+        canvas.height = request.height;
+        replayDisplayList(canvas.getContext('2d')!, request.list);
+        respond({type: 'drawn'});
+        return;
+      }
+      case 'clear':
+        canvas?.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+        return;
+    }
+  } catch (e) {
+    respond({
+      type: 'error',
+      message: e instanceof Error ? e.message : String(e),
+    });
+  }
+};
+
+respond({type: 'ready'});
@@ -0,0 +1,429 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * What the app may send to Gemini, and a record of what it did send.
+ *
+ * Every request goes through the privacy guard on its way to the
+ * transport (see `createPrivacyTransport`). In local-only mode the guard
+ * rejects all requests, so nothing leaves the device. Otherwise the first
+ * request carrying an image waits for the user's consent, which holds for
+ * the rest of the session, and each image that is sent is added to the
+ * audit list.
+ *
+ * Redaction happens before that, where the image is drawn: callers know
+ * where the faces and the region of interest are, the transport does not.
+ */
+
+import {FilesetResolver} from '@mediapipe/tasks-vision';
+import {createBackend, VisionBackend} from './backends.tsx';
+import {getVisionConfig} from './config.tsx';
+import {GeminiRequest, GeminiTransport} from './gemini.tsx';
+import {BoundingBox} from './tracker.tsx';
+import {arrayBufferToBase64} from './utils.tsx';
+
+// Audit entries keep their thumbnail while among this many newest; older
+// ones keep the hash and the rest of the record
+const MAX_AUDIT_THUMBNAILS = 200;
+// Longest edge of the audit thumbnails, in pixels
+const THUMBNAIL_SIZE = 96;
+// Blur radius as a fraction of the image's longest edge
+const BLUR_FRACTION = 0.03;
+
+export type RedactionMode =
+  'none' | 'blur_faces' | 'blur_background' | 'strip_background';
+
+export const REDACTION_MODES: Array<{mode: RedactionMode; label: string}> = [
+  {mode: 'none', label: 'No redaction'},
+  {mode: 'blur_faces', label: 'Blur faces'},
+  {mode: 'blur_background', label: 'Blur outside region'},
+  {mode: 'strip_background', label: 'Remove outside region'},
+];
+
+export interface PrivacySettings {
+  // Never call Gemini; on-device tracking keeps working
+  localOnly: boolean;
+  redaction: RedactionMode;
+}
+
+export const defaultPrivacySettings: PrivacySettings = {
+  localOnly: false,
+  redaction: 'none',
+};
+
+// 'pending' while the consent prompt is showing
+export type ConsentState = 'unasked' | 'pending' | 'granted' | 'denied';
+
+export interface AuditEntry {
+  id: number;
+  // Date.now() when the image was handed to the transport
+  timestamp: number;
+  tag: string | undefined;
+  model: string;
+  transport: string;
+  mimeType: string;
+  bytes: number;
+  // Hex SHA-256 of the image bytes
+  sha256: string;
+  // The redaction setting in effect when the image was sent
+  redaction: RedactionMode;
+  // Small JPEG data URL of what was sent; empty once the entry is old, or if
+  // it could not be made
+  thumbnail: string;
+}
+
+export interface PrivacyState {
+  settings: PrivacySettings;
+  consent: ConsentState;
+  // Every image sent since the audit was last cleared, newest first
+  audit: AuditEntry[];
+  // Images sent this session, including ones cleared from `audit`
+  sentCount: number;
+}
+
+export interface PrivacyGuard {
+  getState(): PrivacyState;
+  setSettings(changes: Partial<PrivacySettings>): void;
+  /**
+   * Check a request before it is sent. Waits for consent if the request
+   * carries images and consent has not been given yet.
+   * @throws A PrivacyError if the request may not be sent, or the request
+   *     signal's reason if it aborts while waiting for consent
+   */
+  authorize(request: GeminiRequest & {model: string}): Promise<void>;
+  // Record the images of a request that is about to be sent
+  record(request: GeminiRequest & {model: string}, transport: string): void;
+  // Answer the consent prompt
+  respond(granted: boolean): void;
+  // Ask again on the next request
+  resetConsent(): void;
+  clearAudit(): void;
+  subscribe(listener: (state: PrivacyState) => void): () => void;
+}
+
+export function isPrivacyError(error: unknown): boolean {
+  return (error as {name?: unknown})?.name === 'PrivacyError';
+}
+
+function privacyError(message: string) {
+  return Object.assign(new Error(message), {name: 'PrivacyError'});
+}
+
+function imageParts(request: GeminiRequest) {
+  return request.parts.flatMap((part) =>
+    'inlineData' in part ? [part.inlineData] : [],
+  );
+}
+
+function base64ToBytes(data: string) {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function sha256Hex(bytes: Uint8Array) {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return [...new Uint8Array(digest)]
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function thumbnail(bytes: Uint8Array, mimeType: string) {
+  const bitmap = await createImageBitmap(new Blob([bytes], {type: mimeType}));
+  const scale = Math.min(
+    1,
+    THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height),
+  );
+  const canvas = new OffscreenCanvas(
+    Math.max(1, Math.round(bitmap.width * scale)),
+    Math.max(1, Math.round(bitmap.height * scale)),
+  );
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const blob = await canvas.convertToBlob({type: 'image/jpeg', quality: 0.7});
+  return `data:image/jpeg;base64,${arrayBufferToBase64(await blob.arrayBuffer())}`;
+}
+
+export function createPrivacyGuard(
+  settings?: Partial<PrivacySettings>,
+): PrivacyGuard {
+  let state: PrivacyState = {
+    settings: {...defaultPrivacySettings, ...settings},
+    consent: 'unasked',
+    audit: [],
+    sentCount: 0,
+  };
+  const listeners = new Set<(state: PrivacyState) => void>();
+  // Requests waiting for the consent prompt to be answered
+  let waiting: Array<(granted: boolean) => void> = [];
+  let nextId = 1;
+
+  function update(changes: Partial<PrivacyState>) {
+    state = {...state, ...changes};
+    for (const listener of listeners) listener(state);
+  }
+
+  function addEntry(entry: AuditEntry) {
+    const audit = [entry, ...state.audit];
+    // Entries arrive one at a time, so at most one ages out of its thumbnail
+    const aged = audit[MAX_AUDIT_THUMBNAILS];
+    if (aged?.thumbnail) audit[MAX_AUDIT_THUMBNAILS] = {...aged, thumbnail: ''};
+    update({audit, sentCount: state.sentCount + 1});
+  }
+
+  // Wait for the consent prompt to be answered, or for the signal to abort
+  function waitForConsent(signal: AbortSignal | undefined) {
+    return new Promise<boolean>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        waiting = waiting.filter((waiter) => waiter !== answer);
+        reject(signal!.reason);
+      };
+      const answer = (granted: boolean) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(granted);
+      };
+      waiting.push(answer);
+      signal?.addEventListener('abort', onAbort, {once: true});
+    });
+  }
+
+  return {
+    getState: () => state,
+    setSettings(changes) {
+      update({settings: {...state.settings, ...changes}});
+    },
+    async authorize(request) {
+      if (state.settings.localOnly) {
+        throw privacyError('Local-only mode is on; nothing is sent to Gemini');
+      }
+      if (imageParts(request).length === 0) return;
+      if (state.consent === 'unasked' || state.consent === 'pending') {
+        if (state.consent === 'unasked') update({consent: 'pending'});
+        const granted = await waitForConsent(request.signal);
+        // Local-only may have been switched on while the prompt was up
+        if (granted && state.settings.localOnly) {
+          throw privacyError(
+            'Local-only mode is on; nothing is sent to Gemini',
+          );
+        }
+      }
+      if (state.consent !== 'granted') {
+        throw privacyError('Sending images to Gemini was declined');
+      }
+    },
+    record(request, transport) {
+      const redaction = state.settings.redaction;
+      for (const {mimeType, data} of imageParts(request)) {
+        const bytes = base64ToBytes(data);
+        const id = nextId++;
+        const timestamp = Date.now();
+        // Hashing and the thumbnail are async; the entry is added once
+        // both are ready, which never holds up the request
+        const fallback = (e: unknown) => {
+          console.warn('Could not summarize an audited image', e);
+          return '';
+        };
+        Promise.all([
+          sha256Hex(bytes).catch(fallback),
+          thumbnail(bytes, mimeType).catch(fallback),
+        ]).then(([sha256, preview]) =>
+          addEntry({
+            id,
+            timestamp,
+            tag: request.tag,
+            model: request.model,
+            transport,
+            mimeType,
+            bytes: bytes.length,
+            sha256,
+            redaction,
+            thumbnail: preview,
+          }),
+        );
+      }
+    },
+    respond(granted) {
+      if (state.consent !== 'pending') return;
+      update({consent: granted ? 'granted' : 'denied'});
+      const resolvers = waiting;
+      waiting = [];
+      for (const resolve of resolvers) resolve(granted);
+    },
+    resetConsent() {
+      if (state.consent === 'pending') return;
+      update({consent: 'unasked'});
+    },
+    clearAudit() {
+      update({audit: []});
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Wrap a transport so that every request is checked by the guard first,
+ * and the images of every request let through are audited.
+ * @param transport The transport that actually sends requests
+ * @param guard The privacy guard
+ */
+export function createPrivacyTransport(
+  transport: GeminiTransport,
+  guard: PrivacyGuard,
+): GeminiTransport {
+  return {
+    name: transport.name,
+    async generate(request) {
+      await guard.authorize(request);
+      request.signal?.throwIfAborted();
+      guard.record(request, transport.name);
+      return transport.generate(request);
+    },
+    async *stream(request) {
+      await guard.authorize(request);
+      request.signal?.throwIfAborted();
+      guard.record(request, transport.name);
+      yield* transport.stream(request);
+    },
+  };
+}
+
+// Whether a redaction mode keeps only a region of interest
+export function needsRegionOfInterest(mode: RedactionMode) {
+  return mode === 'blur_background' || mode === 'strip_background';
+}
+
+/**
+ * Redact an image in place before it is encoded for upload.
+ * @param canvas Holds the image to send
+ * @param mode What to redact
+ * @param regions Face boxes, for 'blur_faces', and the region of interest,
+ *     for the background modes; all in canvas pixels. Without a region of
+ *     interest the background modes redact the whole image, so callers
+ *     should check `needsRegionOfInterest` and ask the user first.
+ */
+export function redactCanvas(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  mode: RedactionMode,
+  regions: {faces?: BoundingBox[]; roi?: BoundingBox | null},
+) {
+  const ctx = canvas.getContext('2d') as
+    CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  const {width, height} = canvas;
+  const blur = Math.max(4, Math.round(Math.max(width, height) * BLUR_FRACTION));
+  const roi = regions.roi;
+
+  // Draw a blurred copy of the image, clipped to the given path
+  function blurInside(clip: Path2D, fillRule: CanvasFillRule) {
+    const copy = new OffscreenCanvas(width, height);
+    copy.getContext('2d')!.drawImage(canvas, 0, 0);
+    ctx.save();
+    ctx.clip(clip, fillRule);
+    ctx.filter = `blur(${blur}px)`;
+    ctx.drawImage(copy, 0, 0);
+    ctx.restore();
+  }
+
+  function outsideRoi() {
+    const path = new Path2D();
+    path.rect(0, 0, width, height);
+    if (roi) path.rect(roi.originX, roi.originY, roi.width, roi.height);
+    return path;
+  }
+
+  switch (mode) {
+    case 'none':
+      return;
+    case 'blur_faces': {
+      if (!regions.faces?.length) return;
+      const path = new Path2D();
+      for (const face of regions.faces) {
+        // Boxes are tight around the features; cover hair and ears too
+        const padX = face.width * 0.2;
+        const padY = face.height * 0.3;
+        path.rect(
+          face.originX - padX,
+          face.originY - padY,
+          face.width + padX * 2,
+          face.height + padY * 2,
+        );
+      }
+      blurInside(path, 'nonzero');
+      return;
+    }
+    case 'blur_background':
+      blurInside(outsideRoi(), 'evenodd');
+      return;
+    case 'strip_background':
+      ctx.save();
+      ctx.fillStyle = '#000000';
+      ctx.fill(outsideRoi(), 'evenodd');
+      ctx.restore();
+      return;
+  }
+}
+
+let faceBackend: Promise<VisionBackend> | null = null;
+
+/**
+ * Find faces in an image for redaction, with a face detector of its own
+ * that is loaded on first use.
+ * @returns Face boxes in image pixels
+ */
+export async function findFaces(
+  image: HTMLCanvasElement | HTMLImageElement,
+): Promise<BoundingBox[]> {
+  faceBackend ??= (async () => {
+    const backend = createBackend('mediapipe-face');
+    const assets = getVisionConfig();
+    await backend.load({
+      fileset: await FilesetResolver.forVisionTasks(assets.wasmBasePath),
+      assets,
+      delegate: 'CPU',
+    });
+    return backend;
+  })();
+  let backend: VisionBackend;
+  try {
+    backend = await faceBackend;
+  } catch (e) {
+    // Let the next call try again
+    faceBackend = null;
+    throw e;
+  }
+  const result = await backend.detect(image, performance.now());
+  return result.detections.map((detection) => detection.bbox);
+}
+
+let sharedGuard: PrivacyGuard | null = null;
+
+/** The guard shared by the whole app, created on first use. */
+export function getPrivacyGuard(): PrivacyGuard {
+  sharedGuard ??= createPrivacyGuard();
+  return sharedGuard;
+}
@@ -0,0 +1,227 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Recording of the live view as WebM: each animation frame, the source frame
+ * as it is shown (fit and mirroring included) is composited with the
+ * overlay on a canvas that feeds a `MediaRecorder`.
+ *
+ * Alongside the video, the recorder keeps a sidecar of the detections
+ * behind each overlay. A detected frame is logged when the first video
+ * frame that shows it is painted, with that frame's time from the start of
+ * the recording, so sidecar entries line up with video timestamps.
+ */
+
+import {drawSourceFrame} from './capture.tsx';
+import {FrameResult} from './loop.tsx';
+import {BoundingBox, TrackState} from './tracker.tsx';
+import {OverlayContext, Viewport} from './viewport.tsx';
+
+export interface RecordedDetection {
+  trackId: number;
+  category: string;
+  score: number;
+  state: TrackState;
+  // In frame pixels, before mirroring
+  bbox: BoundingBox;
+}
+
+export interface RecordedFrame {
+  // Time from the start of the recording, as in the video
+  timeMs: number;
+  // Media time of the detected frame (wall clock for live sources)
+  mediaTimeMs: number;
+  detections: RecordedDetection[];
+}
+
+export interface RecordingSidecar {
+  startedAt: string;
+  mimeType: string;
+  // Video size in pixels
+  width: number;
+  height: number;
+  // How frame pixels map to the video at the start of the recording;
+  // multiply screen coordinates by `devicePixelRatio` for video pixels
+  view: Viewport;
+  sourceLabel: string;
+  frames: RecordedFrame[];
+}
+
+export interface Recording {
+  video: Blob;
+  sidecar: RecordingSidecar;
+}
+
+export interface OverlayRecorder {
+  /**
+   * Start recording at the view's size.
+   * @param view The viewport the frame is shown with
+   * @param sourceLabel Recorded in the sidecar
+   */
+  start(view: Viewport, sourceLabel: string): void;
+  // Log a detected frame; it is timed when `capture` first paints it
+  addFrame(frame: FrameResult): void;
+  /**
+   * Paint one video frame; call on every animation frame while recording.
+   * @param image The source frame
+   * @param view The viewport the frame is shown with
+   * @param drawOverlay Draws the overlay in screen coordinates
+   */
+  capture(
+    image: CanvasImageSource,
+    view: Viewport,
+    drawOverlay: (ctx: OverlayContext, view: Viewport) => void,
+  ): void;
+  // Finish the file; resolves once the recorder has flushed its data
+  stop(): Promise<Recording>;
+  // Stop and discard the recording
+  cancel(): void;
+  isRecording(): boolean;
+  // Time since the recording started, 0 when not recording
+  elapsedMs(): number;
+}
+
+const MIME_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+];
+
+// Frame rate requested from the canvas stream
+const RECORDING_FPS = 30;
+
+/**
+ * The WebM type this browser can record, or null if it cannot.
+ */
+export function recordingMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+export function createOverlayRecorder(): OverlayRecorder {
+  let recorder: MediaRecorder | null = null;
+  let canvas: HTMLCanvasElement | null = null;
+  let ctx: CanvasRenderingContext2D | null = null;
+  let chunks: Blob[] = [];
+  let sidecar: RecordingSidecar | null = null;
+  let startedAt = 0;
+  // Detected frame waiting for the video frame that shows it
+  let pending: FrameResult | null = null;
+
+  function release() {
+    recorder = null;
+    canvas = null;
+    ctx = null;
+    chunks = [];
+    sidecar = null;
+    pending = null;
+  }
+
+  return {
+    start(view, sourceLabel) {
+      if (recorder) return;
+      const mimeType = recordingMimeType();
+      if (!mimeType) {
+        throw new Error('Recording is not supported by this browser.');
+      }
+      canvas = document.createElement('canvas');
+      // Encoders want even dimensions
+      canvas.width =
+        Math.round((view.screenWidth * view.devicePixelRatio) / 2) * 2;
+      canvas.height =
+        Math.round((view.screenHeight * view.devicePixelRatio) / 2) * 2;
+      ctx = canvas.getContext('2d')!;
+      recorder = new MediaRecorder(canvas.captureStream(RECORDING_FPS), {
+        mimeType,
+      });
+      chunks = [];
+      sidecar = {
+        startedAt: new Date().toISOString(),
+        mimeType,
+        width: canvas.width,
+        height: canvas.height,
+        view,
+        sourceLabel,
+        frames: [],
+      };
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      startedAt = performance.now();
+      recorder.onstart = () => {
+        startedAt = performance.now();
+      };
+      recorder.start(1000);
+    },
+    addFrame(frame) {
+      if (recorder) pending = frame;
+    },
+    capture(image, view, drawOverlay) {
+      if (!recorder || !canvas || !ctx || !sidecar) return;
+      // The canvas keeps its starting size; a resized view is stretched
+      ctx.setTransform(
+        canvas.width / view.screenWidth,
+        0,
+        0,
+        canvas.height / view.screenHeight,
+        0,
+        0,
+      );
+      drawSourceFrame(ctx, view, image);
+      drawOverlay(ctx, view);
+      if (pending) {
+        sidecar.frames.push({
+          timeMs: performance.now() - startedAt,
+          mediaTimeMs: pending.mediaTimeMs,
+          detections: pending.tracks.map((track) => ({
+            trackId: track.id,
+            category: track.category,
+            score: track.score,
+            state: track.state,
+            bbox: {...track.bbox},
+          })),
+        });
+        pending = null;
+      }
+    },
+    stop() {
+      const active = recorder;
+      const finished = sidecar;
+      if (!active || !finished) {
+        return Promise.reject(new Error('Not recording'));
+      }
+      return new Promise<Recording>((resolve) => {
+        active.onstop = () => {
+          const video = new Blob(chunks, {type: finished.mimeType});
+          release();
+          resolve({video, sidecar: finished});
+        };
+        active.stop();
+      });
+    },
+    cancel() {
+      if (!recorder) return;
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    },
+    isRecording: () => recorder !== null,
+    elapsedMs: () => (recorder ? performance.now() - startedAt : 0),
+  };
+}
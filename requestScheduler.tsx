@@ -0,0 +1,287 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Scheduler for outgoing Gemini requests.
+ *
+ * Requests wait in a FIFO queue and at most `maxConcurrent` run at once.
+ * Rate-limit (429) and server (5xx) errors are retried with exponential
+ * backoff and jitter; a 429 also holds back the whole queue until the delay
+ * the server asked for has passed. Requests are tagged with a group so that
+ * everything belonging to a superseded prompt or mode can be aborted at
+ * once.
+ */
+
+export interface SchedulerOptions {
+  maxConcurrent: number;
+  // Retries after the first attempt
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const defaultSchedulerOptions: SchedulerOptions = {
+  maxConcurrent: 2,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+export interface SchedulerState {
+  queued: number;
+  inFlight: number;
+  // Requests waiting out a backoff before their next attempt
+  retrying: number;
+  // Date.now() until which no request is sent, after a 429
+  rateLimitedUntil: number | null;
+  lastError: string | null;
+}
+
+export interface ScheduleOptions {
+  // Cancel with `cancel(group)`
+  group?: string;
+  // Called when the request leaves the queue for its first attempt
+  onStart?: () => void;
+}
+
+export interface RequestScheduler {
+  /**
+   * Queue a request. `run` may be called several times if it fails with a
+   * retryable error, and must stop when the signal aborts.
+   * @returns The result of the first successful attempt
+   */
+  schedule<T>(
+    run: (signal: AbortSignal) => Promise<T>,
+    options?: ScheduleOptions,
+  ): Promise<T>;
+  // Abort queued and running requests of a group, or of every group
+  cancel(group?: string): void;
+  getState(): SchedulerState;
+  subscribe(listener: (state: SchedulerState) => void): () => void;
+}
+
+/**
+ * The HTTP status of a failed request, if it can be told. The Gemini SDK
+ * only reports it in the error message.
+ */
+export function errorStatus(error: unknown): number | null {
+  const status = (error as {status?: unknown})?.status;
+  if (typeof status === 'number') return status;
+  const message = error instanceof Error ? error.message : String(error);
+  const match = message.match(/got status: (\d{3})|"code":\s*(\d{3})/);
+  return match ? Number(match[1] ?? match[2]) : null;
+}
+
+export function isRetryable(error: unknown): boolean {
+  const status = errorStatus(error);
+  return status === 429 || (status !== null && status >= 500);
+}
+
+/**
+ * Whether sending the same request again cannot succeed until something
+ * about it changes: the API rejected it (a 4xx other than 429, e.g. a
+ * schema it does not accept), or a daily quota rather than a rate limit ran
+ * out.
+ */
+export function isPermanentError(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status === 429) {
+    const message = error instanceof Error ? error.message : String(error);
+    return /PerDay|per day/i.test(message);
+  }
+  return status !== null && status >= 400 && status < 500;
+}
+
+// Delay requested through the API's RetryInfo, e.g. "retryDelay": "27s"
+function requestedDelayMs(error: unknown): number | null {
+  const message = error instanceof Error ? error.message : String(error);
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : null;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return (error as {name?: unknown})?.name === 'AbortError';
+}
+
+function abortError() {
+  return new DOMException('The request was cancelled', 'AbortError');
+}
+
+interface Job {
+  run: (signal: AbortSignal) => Promise<unknown>;
+  group: string | undefined;
+  onStart: (() => void) | undefined;
+  controller: AbortController;
+  attempt: number;
+  started: boolean;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+export function createRequestScheduler(
+  options?: Partial<SchedulerOptions>,
+): RequestScheduler {
+  const opts: SchedulerOptions = {...defaultSchedulerOptions, ...options};
+  const queue: Job[] = [];
+  const running = new Set<Job>();
+  const waiting = new Map<Job, ReturnType<typeof setTimeout>>();
+  const listeners = new Set<(state: SchedulerState) => void>();
+  let rateLimitedUntil: number | null = null;
+  let resumeTimer: ReturnType<typeof setTimeout> | undefined;
+  let lastError: string | null = null;
+
+  function getState(): SchedulerState {
+    return {
+      queued: queue.length,
+      inFlight: running.size,
+      retrying: waiting.size,
+      rateLimitedUntil,
+      lastError,
+    };
+  }
+
+  function notify() {
+    const state = getState();
+    for (const listener of listeners) listener(state);
+  }
+
+  function pump() {
+    if (rateLimitedUntil !== null) {
+      const wait = rateLimitedUntil - Date.now();
+      if (wait > 0) {
+        clearTimeout(resumeTimer);
+        resumeTimer = setTimeout(pump, wait);
+        notify();
+        return;
+      }
+      rateLimitedUntil = null;
+    }
+    while (running.size < opts.maxConcurrent && queue.length > 0) {
+      attempt(queue.shift()!);
+    }
+    notify();
+  }
+
+  async function attempt(job: Job) {
+    running.add(job);
+    if (!job.started) {
+      job.started = true;
+      job.onStart?.();
+    }
+    try {
+      const result = await job.run(job.controller.signal);
+      if (job.controller.signal.aborted) throw abortError();
+      lastError = null;
+      job.resolve(result);
+    } catch (e) {
+      if (job.controller.signal.aborted || isAbortError(e)) {
+        job.reject(abortError());
+      } else if (isRetryable(e) && job.attempt < opts.maxRetries) {
+        lastError = e instanceof Error ? e.message : String(e);
+        retryLater(job, e);
+      } else {
+        lastError = e instanceof Error ? e.message : String(e);
+        job.reject(e);
+      }
+    } finally {
+      running.delete(job);
+      pump();
+    }
+  }
+
+  function retryLater(job: Job, error: unknown) {
+    // Exponential backoff with "equal jitter": half fixed, half random
+    const backoff = Math.min(
+      opts.maxDelayMs,
+      opts.baseDelayMs * 2 ** job.attempt,
+    );
+    let delay = backoff / 2 + (Math.random() * backoff) / 2;
+    const requested = requestedDelayMs(error);
+    if (requested !== null) delay = Math.max(delay, requested);
+    if (errorStatus(error) === 429) {
+      rateLimitedUntil = Math.max(rateLimitedUntil ?? 0, Date.now() + delay);
+    }
+    job.attempt++;
+    waiting.set(
+      job,
+      setTimeout(() => {
+        waiting.delete(job);
+        // Retries go ahead of requests that have not been tried yet
+        queue.unshift(job);
+        pump();
+      }, delay),
+    );
+  }
+
+  function cancelJob(job: Job) {
+    job.controller.abort();
+    const queued = queue.indexOf(job);
+    if (queued >= 0) queue.splice(queued, 1);
+    const timer = waiting.get(job);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      waiting.delete(job);
+    }
+    // Running jobs reject from attempt() once their run() settles
+    if (!running.has(job)) job.reject(abortError());
+  }
+
+  return {
+    schedule<T>(
+      run: (signal: AbortSignal) => Promise<T>,
+      scheduleOptions: ScheduleOptions = {},
+    ) {
+      return new Promise<T>((resolve, reject) => {
+        queue.push({
+          run,
+          group: scheduleOptions.group,
+          onStart: scheduleOptions.onStart,
+          controller: new AbortController(),
+          attempt: 0,
+          started: false,
+          resolve: resolve as (value: unknown) => void,
+          reject,
+        });
+        pump();
+      });
+    },
+    cancel(group) {
+      const jobs = [...queue, ...waiting.keys(), ...running];
+      for (const job of jobs) {
+        if (group === undefined || job.group === group) cancelJob(job);
+      }
+      notify();
+    },
+    getState,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+let sharedScheduler: RequestScheduler | null = null;
+
+/** The scheduler shared by every Gemini caller in the app. */
+export function getRequestScheduler(): RequestScheduler {
+  sharedScheduler ??= createRequestScheduler();
+  return sharedScheduler;
+}
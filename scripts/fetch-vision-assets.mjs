@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Copies the MediaPipe WASM runtime out of node_modules and downloads the
+// vision models into public/mediapipe, so that a build made with
+// VISION_ASSET_BASE=/mediapipe boots without network access. Run it once on a
+// connected machine; the resulting files are served as static assets and end
+// up in dist/ on `npm run build`.
+
+import {copyFile, mkdir, readdir, stat, writeFile} from 'fs/promises';
+import path from 'path';
+import {fileURLToPath} from 'url';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const outDir = path.join(root, 'public', 'mediapipe');
+
+// Keep in sync with REMOTE_MODEL_URLS in config.tsx
+const MODEL_BASE = 'https://storage.googleapis.com/mediapipe-models';
+const models = [
+  `${MODEL_BASE}/object_detector/efficientdet_lite0/float16/1/efficientdet_lite0.tflite`,
+  `${MODEL_BASE}/face_detector/blaze_face_short_range/float16/1/blaze_face_short_range.tflite`,
+  `${MODEL_BASE}/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
+  `${MODEL_BASE}/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task`,
+];
+
+async function exists(file) {
+  try {
+    await stat(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function copyWasm() {
+  const source = path.join(
+    root,
+    'node_modules',
+    '@mediapipe',
+    'tasks-vision',
+    'wasm',
+  );
+  const target = path.join(outDir, 'wasm');
+  await mkdir(target, {recursive: true});
+  for (const file of await readdir(source)) {
+    await copyFile(path.join(source, file), path.join(target, file));
+    console.log(`copied wasm/${file}`);
+  }
+}
+
+async function downloadModels() {
+  const target = path.join(outDir, 'models');
+  await mkdir(target, {recursive: true});
+  for (const url of models) {
+    const file = path.join(target, url.split('/').pop());
+    if (await exists(file)) {
+      console.log(`skipped models/${path.basename(file)} (already present)`);
+      continue;
+    }
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to download ${url}: ${response.status}`);
+    }
+    await writeFile(file, Buffer.from(await response.arrayBuffer()));
+    console.log(`downloaded models/${path.basename(file)}`);
+  }
+}
+
+await copyWasm();
+await downloadModels();
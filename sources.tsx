@@ -0,0 +1,396 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Input sources the live tracker can run on: the webcam, a local video file,
+ * or a sequence of still frames from a folder or ZIP archive.
+ *
+ * File sources can be paused, stepped and seeked, and report the media time
+ * of the frame on screen so that detection runs on the same timestamps every
+ * time a clip is replayed.
+ */
+
+import {isMetadataPath, readZip} from './zip.tsx';
+
+export type InputSourceKind = 'webcam' | 'video' | 'frames';
+
+export interface InputSource {
+  readonly kind: InputSourceKind;
+  readonly label: string;
+  // Live sources are timestamped with the wall clock, others with media time
+  readonly live: boolean;
+  // Whether the source is shown mirrored, like a selfie view
+  readonly mirrored: boolean;
+  // The element shown on screen and passed to the detectors
+  readonly element: HTMLVideoElement | HTMLCanvasElement;
+  width(): number;
+  height(): number;
+  // False until the first frame can be drawn
+  ready(): boolean;
+  // Media time of the frame currently shown, in milliseconds
+  currentTimeMs(): number;
+  durationMs(): number;
+  frameIntervalMs(): number;
+  isPaused(): boolean;
+  play(): void;
+  pause(): void;
+  // Pause and move by a whole number of frames (negative steps back)
+  step(frames: number): void;
+  seek(timeMs: number): void;
+  // Release the underlying stream, object URLs and decoded frames
+  stop(): void;
+}
+
+// Used when a video file does not tell us its frame rate
+const DEFAULT_FRAME_INTERVAL_MS = 1000 / 30;
+
+const IMAGE_FILE = /\.(png|jpe?g|webp|bmp|gif)$/i;
+
+// Image files, leaving out the metadata copies macOS adds next to them
+function isFrameFile(path: string) {
+  return !isMetadataPath(path) && IMAGE_FILE.test(path);
+}
+
+function byNaturalName(a: {name: string}, b: {name: string}) {
+  return a.name.localeCompare(b.name, undefined, {numeric: true});
+}
+
+export type FacingMode = 'user' | 'environment';
+
+export const RESOLUTION_PRESETS = {
+  auto: null,
+  '480p': {width: 640, height: 480},
+  '720p': {width: 1280, height: 720},
+  '1080p': {width: 1920, height: 1080},
+};
+
+export type ResolutionPreset = keyof typeof RESOLUTION_PRESETS;
+
+export const FRAME_RATE_PRESETS = [0, 15, 24, 30, 60];
+
+export interface CameraSettings {
+  // A specific camera; null to pick by facing mode
+  deviceId: string | null;
+  facingMode: FacingMode;
+  resolution: ResolutionPreset;
+  // Requested frame rate; 0 leaves it to the browser
+  frameRate: number;
+}
+
+export const defaultCameraSettings: CameraSettings = {
+  deviceId: null,
+  facingMode: 'user',
+  resolution: 'auto',
+  frameRate: 0,
+};
+
+/**
+ * Build getUserMedia constraints for camera settings. The device is required
+ * exactly; resolution and frame rate are only preferences so that a camera
+ * that cannot meet them still opens.
+ */
+export function cameraConstraints(
+  settings: CameraSettings,
+): MediaTrackConstraints {
+  const constraints: MediaTrackConstraints = settings.deviceId
+    ? {deviceId: {exact: settings.deviceId}}
+    : {facingMode: settings.facingMode};
+  const resolution = RESOLUTION_PRESETS[settings.resolution];
+  if (resolution) {
+    constraints.width = {ideal: resolution.width};
+    constraints.height = {ideal: resolution.height};
+  }
+  if (settings.frameRate) {
+    constraints.frameRate = {ideal: settings.frameRate};
+  }
+  return constraints;
+}
+
+export async function openCamera(
+  settings: CameraSettings,
+): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({
+    video: cameraConstraints(settings),
+  });
+}
+
+/**
+ * List the video input devices. Labels are empty until the user has granted
+ * camera permission at least once.
+ */
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === 'videoinput');
+}
+
+export function createWebcamSource(
+  video: HTMLVideoElement,
+  stream: MediaStream,
+): InputSource {
+  video.removeAttribute('src');
+  video.srcObject = stream;
+  video.loop = false;
+  video.play().catch(() => {});
+  const track = stream.getVideoTracks()[0];
+  // Desktop webcams usually do not report a facing mode; they face the user
+  const facingMode = track?.getSettings().facingMode;
+  return {
+    kind: 'webcam',
+    label: track?.label || 'Camera',
+    live: true,
+    mirrored: facingMode !== 'environment',
+    element: video,
+    width: () => video.videoWidth,
+    height: () => video.videoHeight,
+    ready: () => video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA,
+    currentTimeMs: () => video.currentTime * 1000,
+    durationMs: () => 0,
+    frameIntervalMs: () => DEFAULT_FRAME_INTERVAL_MS,
+    isPaused: () => false,
+    play() {},
+    pause() {},
+    step() {},
+    seek() {},
+    stop() {
+      stream.getTracks().forEach((track) => track.stop());
+      video.srcObject = null;
+    },
+  };
+}
+
+export function createVideoFileSource(
+  video: HTMLVideoElement,
+  file: File,
+): InputSource {
+  const url = URL.createObjectURL(file);
+  video.srcObject = null;
+  video.src = url;
+  video.loop = false;
+  video.play().catch(() => {});
+  const frameInterval = DEFAULT_FRAME_INTERVAL_MS;
+  return {
+    kind: 'video',
+    label: file.name,
+    live: false,
+    mirrored: false,
+    element: video,
+    width: () => video.videoWidth,
+    height: () => video.videoHeight,
+    ready: () => video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA,
+    currentTimeMs: () => video.currentTime * 1000,
+    durationMs: () => (isFinite(video.duration) ? video.duration * 1000 : 0),
+    frameIntervalMs: () => frameInterval,
+    isPaused: () => video.paused,
+    play() {
+      if (video.ended) video.currentTime = 0;
+      video.play().catch(() => {});
+    },
+    pause() {
+      video.pause();
+    },
+    step(frames) {
+      video.pause();
+      // Land in the middle of the target frame so rounding cannot skip it
+      const index = Math.round((video.currentTime * 1000) / frameInterval);
+      const target = (index + frames + 0.5) * frameInterval;
+      video.currentTime =
+        Math.min(Math.max(target, 0), video.duration * 1000 || 0) / 1000;
+    },
+    seek(timeMs) {
+      video.currentTime = Math.max(0, timeMs) / 1000;
+    },
+    stop() {
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    },
+  };
+}
+
+export interface FrameSequenceOptions {
+  fps: number;
+  label: string;
+}
+
+/**
+ * Play back still images as a video by drawing them onto a canvas.
+ * @param canvas The canvas to draw frames into
+ * @param frames The frames, in playback order
+ */
+export function createFrameSequenceSource(
+  canvas: HTMLCanvasElement,
+  frames: Blob[],
+  {fps, label}: FrameSequenceOptions,
+): InputSource {
+  if (frames.length === 0) {
+    throw new Error('No image files found.');
+  }
+  const frameInterval = 1000 / fps;
+  const ctx = canvas.getContext('2d')!;
+  let index = 0;
+  // Index of the frame currently on the canvas, -1 before the first draw
+  let shownIndex = -1;
+  let paused = false;
+  let stopped = false;
+  let timer: number | undefined;
+  let drawing: Promise<void> = Promise.resolve();
+
+  function show(target: number) {
+    index = Math.min(Math.max(target, 0), frames.length - 1);
+    const wanted = index;
+    // Decode in order so a slow frame cannot overwrite a later one
+    drawing = drawing.then(async () => {
+      if (stopped || wanted !== index) return;
+      let bitmap: ImageBitmap;
+      try {
+        bitmap = await createImageBitmap(frames[wanted]);
+      } catch (e) {
+        // Keep showing the previous frame rather than stopping playback
+        console.error(`Failed to decode frame ${wanted + 1}`, e);
+        return;
+      }
+      if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+      }
+      ctx.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      shownIndex = wanted;
+    });
+  }
+
+  function tick() {
+    if (paused || stopped) return;
+    if (index >= frames.length - 1) {
+      paused = true;
+      return;
+    }
+    show(index + 1);
+    timer = window.setTimeout(tick, frameInterval);
+  }
+
+  show(0);
+  timer = window.setTimeout(tick, frameInterval);
+
+  return {
+    kind: 'frames',
+    label,
+    live: false,
+    mirrored: false,
+    element: canvas,
+    width: () => canvas.width,
+    height: () => canvas.height,
+    ready: () => shownIndex >= 0,
+    currentTimeMs: () => Math.max(shownIndex, 0) * frameInterval,
+    durationMs: () => frames.length * frameInterval,
+    frameIntervalMs: () => frameInterval,
+    isPaused: () => paused,
+    play() {
+      if (!paused) return;
+      if (index >= frames.length - 1) show(0);
+      paused = false;
+      timer = window.setTimeout(tick, frameInterval);
+    },
+    pause() {
+      paused = true;
+      window.clearTimeout(timer);
+    },
+    step(count) {
+      this.pause();
+      show(index + count);
+    },
+    seek(timeMs) {
+      show(Math.floor(timeMs / frameInterval));
+    },
+    stop() {
+      stopped = true;
+      window.clearTimeout(timer);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+    },
+  };
+}
+
+/**
+ * Collect the image files of a folder selection or ZIP archive, sorted by
+ * name so that `frame_2.png` comes before `frame_10.png`.
+ * @param files Files from a directory picker, or a single ZIP archive
+ * @returns The frames in playback order
+ */
+export async function loadFrameFiles(files: File[]): Promise<Blob[]> {
+  const images: {name: string; blob: Blob}[] = [];
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      images.push(...(await readZip(file, isFrameFile)));
+    } else if (isFrameFile(file.webkitRelativePath || file.name)) {
+      images.push({name: file.webkitRelativePath || file.name, blob: file});
+    }
+  }
+  images.sort(byNaturalName);
+  // Fail before the current source is replaced if playback could not start
+  if (images.length === 0) {
+    throw new Error('No image files found.');
+  } else {
+    try {
+      (await createImageBitmap(images[0].blob)).close();
+    } catch {
+      throw new Error(`${images[0].name} is not a readable image.`);
+    }
+  }
+  return images.map((image) => image.blob);
+}
+
+/**
+ * Turn possibly non-monotonic media timestamps into the strictly increasing
+ * ones MediaPipe's VIDEO mode requires. When media time jumps backwards
+ * (seek, replay) the clock keeps counting up from where it was. Backward
+ * jumps and forward jumps over `maxGapMs` are reported as discontinuities so
+ * that trackers can reset.
+ *
+ * A MediaPipe task keeps the latest timestamp it was given for as long as it
+ * lives, so one clock must serve every source the task sees. `restart`
+ * starts a new media timeline, e.g. for a new source, that continues after
+ * the last timestamp instead of starting over.
+ */
+export function createMonotonicClock(maxGapMs = 1000) {
+  let offset = 0;
+  let lastMedia = -Infinity;
+  let lastOutput = -Infinity;
+  return {
+    next(mediaTimeMs: number): {timestampMs: number; discontinuity: boolean} {
+      let discontinuity = false;
+      if (lastMedia === -Infinity && lastOutput !== -Infinity) {
+        offset = lastOutput + 1 - mediaTimeMs;
+        discontinuity = true;
+      } else if (mediaTimeMs <= lastMedia) {
+        offset = lastOutput + 1 - mediaTimeMs;
+        discontinuity = true;
+      } else if (mediaTimeMs - lastMedia > maxGapMs && lastMedia >= 0) {
+        // A forward seek; time still increases but motion history is stale
+        discontinuity = true;
+      }
+      lastMedia = mediaTimeMs;
+      lastOutput = mediaTimeMs + offset;
+      return {timestampMs: lastOutput, discontinuity};
+    },
+    restart() {
+      lastMedia = -Infinity;
+    },
+  };
+}
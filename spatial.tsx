@@ -0,0 +1,360 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Parsing and validation of Gemini spatial-understanding responses.
+ *
+ * Gemini answers spatial prompts with a JSON list of `box_2d`, `point`,
+ * `box_3d` or mask entries, usually inside a ```json fence. Output is
+ * repaired where the intent is clear (prose around the JSON, a truncated
+ * list, trailing commas, swapped min/max, coordinates outside 0-1000) and
+ * every repair or dropped item is reported as an issue, so the UI can show
+ * what went wrong instead of failing the whole response.
+ */
+
+import {Type} from '@google/genai';
+
+export type SpatialKind = '2d' | 'points' | '3d' | 'masks';
+
+// 2D coordinates are normalized to 0-1000, y before x
+export interface Box2DItem {
+  box_2d: [number, number, number, number];
+  label: string;
+}
+
+export interface PointItem {
+  point: [number, number];
+  label: string;
+}
+
+// Center (3), size (3) and roll/pitch/yaw in degrees (3)
+export interface Box3DItem {
+  box_3d: [
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+    number,
+  ];
+  label: string;
+}
+
+export interface MaskItem extends Box2DItem {
+  // PNG data URL of the mask, covering box_2d
+  mask: string;
+}
+
+export interface SpatialItems {
+  '2d': Box2DItem;
+  points: PointItem;
+  '3d': Box3DItem;
+  masks: MaskItem;
+}
+
+export interface SpatialIssue {
+  // Index of the item in the response, or null for the response as a whole
+  index: number | null;
+  message: string;
+  // True if the problem was repaired, false if the item (or, with a null
+  // index, the whole response) was dropped
+  repaired: boolean;
+}
+
+export interface SpatialParseResult<T> {
+  items: T[];
+  issues: SpatialIssue[];
+}
+
+const COORDINATE_MAX = 1000;
+const PNG_DATA_URL_PREFIX = 'data:image/png;base64,';
+
+/**
+ * Find the JSON value in a response, dropping fences and surrounding prose
+ * and closing a list that was cut off mid-item.
+ */
+function extractJson(text: string, issues: SpatialIssue[]): string | null {
+  let body = text;
+  const fence = body.indexOf('```');
+  if (fence >= 0) {
+    const rest = body.slice(fence + 3).replace(/^json\b/i, '');
+    const end = rest.indexOf('```');
+    body = end >= 0 ? rest.slice(0, end) : rest;
+  }
+  const start = body.search(/[[{]/);
+  if (start < 0) return null;
+  if (body.slice(0, start).trim()) {
+    issues.push({
+      index: null,
+      message: 'Ignored text before the JSON',
+      repaired: true,
+    });
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // End of the last complete element of the top-level list
+  let lastElementEnd = -1;
+  for (let i = start; i < body.length; i++) {
+    const char = body[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+      if (depth === 1) lastElementEnd = i + 1;
+      if (depth === 0) {
+        if (body.slice(i + 1).trim()) {
+          issues.push({
+            index: null,
+            message: 'Ignored text after the JSON',
+            repaired: true,
+          });
+        }
+        return body.slice(start, i + 1);
+      }
+    }
+  }
+
+  if (body[start] !== '[' || lastElementEnd < 0) return null;
+  issues.push({
+    index: null,
+    message: 'Response was truncated; the incomplete last item was dropped',
+    repaired: true,
+  });
+  return body.slice(start, lastElementEnd) + ']';
+}
+
+function parseList(text: string, issues: SpatialIssue[]): unknown[] | null {
+  const json = extractJson(text, issues);
+  if (json === null) {
+    issues.push({
+      index: null,
+      message: 'No JSON found in the response',
+      repaired: false,
+    });
+    return null;
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    try {
+      value = JSON.parse(json.replace(/,\s*([\]}])/g, '$1'));
+      issues.push({
+        index: null,
+        message: 'Removed trailing commas',
+        repaired: true,
+      });
+    } catch (e) {
+      issues.push({
+        index: null,
+        message: `Invalid JSON: ${e instanceof Error ? e.message : e}`,
+        repaired: false,
+      });
+      return null;
+    }
+  }
+  if (Array.isArray(value)) return value;
+  if (value && typeof value === 'object') {
+    // {"items": [...]} or a single bare item
+    const lists = Object.values(value).filter(Array.isArray);
+    const isItem = ['box_2d', 'point', 'box_3d'].some((key) => key in value);
+    if (lists.length === 1 && !isItem) return lists[0];
+    if (isItem) return [value];
+  }
+  issues.push({index: null, message: 'Expected a JSON list', repaired: false});
+  return null;
+}
+
+// Coerces numeric strings, returns an error message if not possible
+function toNumbers(value: unknown, length: number, field: string) {
+  if (!Array.isArray(value)) return `${field} is missing or not a list`;
+  if (value.length !== length) {
+    return `${field} has ${value.length} values, expected ${length}`;
+  }
+  const numbers = value.map(Number);
+  if (numbers.some((n) => !Number.isFinite(n))) {
+    return `${field} contains a non-numeric value`;
+  }
+  return numbers;
+}
+
+function clampCoordinates(
+  values: number[],
+  field: string,
+  report: (message: string) => void,
+) {
+  if (values.some((v) => v < 0 || v > COORDINATE_MAX)) {
+    report(`${field} was outside 0-${COORDINATE_MAX} and was clamped`);
+  }
+  return values.map((v) => Math.min(COORDINATE_MAX, Math.max(0, v)));
+}
+
+function toLabel(value: unknown, report: (message: string) => void) {
+  if (typeof value === 'string') return value;
+  report('label was missing or not text');
+  return value === undefined || value === null ? '' : String(value);
+}
+
+type Validator<T> = (
+  item: Record<string, unknown>,
+  report: (message: string) => void,
+) => T | string;
+
+function validateBox2D(
+  item: Record<string, unknown>,
+  report: (message: string) => void,
+): Box2DItem | string {
+  const numbers = toNumbers(item.box_2d, 4, 'box_2d');
+  if (typeof numbers === 'string') return numbers;
+  let [ymin, xmin, ymax, xmax] = clampCoordinates(numbers, 'box_2d', report);
+  if (ymin > ymax || xmin > xmax) {
+    report('box_2d had min and max swapped');
+    [ymin, ymax] = [Math.min(ymin, ymax), Math.max(ymin, ymax)];
+    [xmin, xmax] = [Math.min(xmin, xmax), Math.max(xmin, xmax)];
+  }
+  if (ymin === ymax || xmin === xmax) return 'box_2d has zero area';
+  return {box_2d: [ymin, xmin, ymax, xmax], label: toLabel(item.label, report)};
+}
+
+const validators: {[K in SpatialKind]: Validator<SpatialItems[K]>} = {
+  '2d': validateBox2D,
+  points(item, report) {
+    const numbers = toNumbers(item.point, 2, 'point');
+    if (typeof numbers === 'string') return numbers;
+    const [y, x] = clampCoordinates(numbers, 'point', report);
+    return {point: [y, x], label: toLabel(item.label, report)};
+  },
+  '3d'(item, report) {
+    const numbers = toNumbers(item.box_3d, 9, 'box_3d');
+    if (typeof numbers === 'string') return numbers;
+    if (numbers.slice(3, 6).some((size) => size <= 0)) {
+      return 'box_3d has a non-positive size';
+    }
+    return {
+      box_3d: numbers as Box3DItem['box_3d'],
+      label: toLabel(item.label, report),
+    };
+  },
+  masks(item, report) {
+    const box = validateBox2D(item, report);
+    if (typeof box === 'string') return box;
+    if (typeof item.mask !== 'string' || !item.mask) return 'mask is missing';
+    let mask = item.mask;
+    if (!mask.startsWith('data:')) {
+      report('mask was missing its data URL prefix');
+      mask = PNG_DATA_URL_PREFIX + mask;
+    }
+    return {...box, mask};
+  },
+};
+
+/**
+ * Parse a spatial response into validated items.
+ * @param kind Which entries the response should contain
+ * @param text The raw response text
+ * @returns The usable items and every problem found along the way
+ */
+export function parseSpatialResponse<K extends SpatialKind>(
+  kind: K,
+  text: string,
+): SpatialParseResult<SpatialItems[K]> {
+  const issues: SpatialIssue[] = [];
+  const list = parseList(text, issues);
+  if (!list) return {items: [], issues};
+  const validate = validators[kind] as Validator<SpatialItems[K]>;
+  const items: SpatialItems[K][] = [];
+  list.forEach((entry, index) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      issues.push({index, message: 'Item is not an object', repaired: false});
+      return;
+    }
+    const result = validate(entry as Record<string, unknown>, (message) =>
+      issues.push({index, message, repaired: true}),
+    );
+    if (typeof result === 'string') {
+      issues.push({index, message: result, repaired: false});
+    } else {
+      items.push(result);
+    }
+  });
+  return {items, issues};
+}
+
+function coordinateArray(length: number, description: string) {
+  return {
+    type: Type.ARRAY,
+    description,
+    items: {type: Type.NUMBER},
+    minItems: `${length}`,
+    maxItems: `${length}`,
+  };
+}
+
+/**
+ * The structured-output schema for a spatial response, for use as
+ * `responseSchema` with `responseMimeType: 'application/json'`.
+ * @param kind Which entries the response should contain
+ */
+export function spatialResponseSchema(kind: SpatialKind) {
+  const properties: Record<string, unknown> = {
+    label: {type: Type.STRING},
+  };
+  if (kind === '2d' || kind === 'masks') {
+    properties.box_2d = coordinateArray(
+      4,
+      '[ymin, xmin, ymax, xmax] in 0-1000',
+    );
+  }
+  if (kind === 'masks') {
+    properties.mask = {
+      type: Type.STRING,
+      description: 'PNG mask as a data URL',
+    };
+  }
+  if (kind === 'points') {
+    properties.point = coordinateArray(2, '[y, x] in 0-1000');
+  }
+  if (kind === '3d') {
+    properties.box_3d = coordinateArray(
+      9,
+      '[x, y, z, x_size, y_size, z_size, roll, pitch, yaw], angles in degrees',
+    );
+  }
+  return {
+    type: Type.ARRAY,
+    items: {
+      type: Type.OBJECT,
+      properties,
+      required: Object.keys(properties),
+    },
+  };
+}
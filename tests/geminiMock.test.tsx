@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {createMockTransport} from '../geminiMock.tsx';
+
+const request = {model: 'mock-model', parts: [{text: 'Hello'}]};
+
+test('the mock answers from the catch-all fixture', async () => {
+  const transport = createMockTransport({latencyMs: 0});
+  const response = await transport.generate(request);
+  assert.equal(response.text, 'This is a mock Gemini response.');
+});
+
+test('the mock rejects with the reason when its request aborts', async () => {
+  const transport = createMockTransport({latencyMs: 10000});
+  const controller = new AbortController();
+  const pending = transport.generate({...request, signal: controller.signal});
+  const reason = new Error('cancelled');
+  controller.abort(reason);
+  await assert.rejects(pending, reason);
+});
+
+test('the mock reports fixture errors with their status', async () => {
+  const transport = createMockTransport({
+    latencyMs: 0,
+    fixtures: [{response: '', error: 'Too many requests', status: 429}],
+  });
+  await assert.rejects(transport.generate(request), {status: 429});
+});
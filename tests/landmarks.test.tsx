@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import {NormalizedLandmark} from '@mediapipe/tasks-vision';
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {angleBetween, computeJointAngles} from '../landmarks.tsx';
+
+// 33 pose landmarks, all at the origin and visible
+function pose(): NormalizedLandmark[] {
+  return Array.from({length: 33}, () => ({x: 0, y: 0, z: 0, visibility: 1}));
+}
+
+test('angleBetween measures at the middle point', () => {
+  const b = {x: 0, y: 0};
+  assert.equal(angleBetween({x: 1, y: 0}, b, {x: 0, y: 1}), 90);
+  assert.equal(angleBetween({x: 1, y: 0}, b, {x: -1, y: 0}), 180);
+  assert.equal(angleBetween({x: 1, y: 0}, b, b), null);
+});
+
+test('computeJointAngles gives the left elbow angle', () => {
+  const landmarks = pose();
+  // Shoulder, elbow and wrist at a right angle
+  landmarks[11] = {x: 0, y: 0, z: 0, visibility: 1};
+  landmarks[13] = {x: 0, y: 1, z: 0, visibility: 1};
+  landmarks[15] = {x: 1, y: 1, z: 0, visibility: 1};
+  const angles = computeJointAngles(landmarks);
+  assert.ok(Math.abs(angles.left_elbow! - 90) < 1e-9);
+});
+
+test('computeJointAngles prefers world landmarks', () => {
+  const landmarks = pose();
+  landmarks[11] = {x: 0, y: 0, z: 0, visibility: 1};
+  landmarks[13] = {x: 0, y: 1, z: 0, visibility: 1};
+  landmarks[15] = {x: 1, y: 1, z: 0, visibility: 1};
+  const world = pose();
+  world[11] = {x: 0, y: 0, z: 0, visibility: 1};
+  world[13] = {x: 0, y: 1, z: 0, visibility: 1};
+  world[15] = {x: 0, y: 2, z: 0, visibility: 1};
+  assert.equal(computeJointAngles(landmarks, world).left_elbow, 180);
+});
+
+test('computeJointAngles leaves out joints with a hidden landmark', () => {
+  const landmarks = pose();
+  landmarks[13] = {x: 0, y: 1, z: 0, visibility: 0.2};
+  landmarks[15] = {x: 1, y: 1, z: 0, visibility: 1};
+  assert.equal(computeJointAngles(landmarks).left_elbow, null);
+});
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {
+  BoundingBox,
+  createTracker,
+  iou,
+  TrackerDetection,
+} from '../tracker.tsx';
+
+function box(originX: number, originY: number, size = 10): BoundingBox {
+  return {originX, originY, width: size, height: size};
+}
+
+function person(bbox: BoundingBox): TrackerDetection {
+  return {bbox, category: 'person', score: 0.9};
+}
+
+test('iou of identical, disjoint and half-overlapping boxes', () => {
+  assert.equal(iou(box(0, 0), box(0, 0)), 1);
+  assert.equal(iou(box(0, 0), box(20, 20)), 0);
+  // 50 shared of 150 covered
+  assert.equal(iou(box(0, 0), box(5, 0)), 1 / 3);
+});
+
+test('tracks keep their ids while their objects move', () => {
+  const tracker = createTracker({minHits: 1});
+  const first = tracker.update([person(box(0, 0)), person(box(100, 0))], 0);
+  const second = tracker.update([person(box(103, 0)), person(box(3, 0))], 33);
+  const idAt = (tracks: typeof first, x: number) =>
+    tracks.find((track) => Math.abs(track.bbox.originX - x) < 5)!.id;
+  assert.equal(idAt(second, 3), idAt(first, 0));
+  assert.equal(idAt(second, 103), idAt(first, 100));
+});
+
+test('greedy assignment gives a detection to the closest track only', () => {
+  const tracker = createTracker({minHits: 1});
+  const [a, b] = tracker.update([person(box(0, 0)), person(box(6, 0))], 0);
+  // One detection overlapping both tracks goes to the one it overlaps most
+  const tracks = tracker.update([person(box(5, 0))], 33);
+  const matched = tracks.filter((track) => track.detectionIndex === 0);
+  assert.deepEqual(
+    matched.map((track) => track.id),
+    [b.id],
+  );
+  assert.equal(tracks.find((track) => track.id === a.id)?.state, 'coasting');
+});
+
+test('tracks coast for maxMisses frames, then are dropped', () => {
+  const tracker = createTracker({minHits: 1, maxMisses: 2});
+  const [track] = tracker.update([person(box(0, 0))], 0);
+  assert.equal(tracker.update([], 33)[0].state, 'coasting');
+  assert.equal(tracker.update([], 66)[0].id, track.id);
+  assert.deepEqual(tracker.update([], 100), []);
+});
+
+test('a coasting track is picked up again under the same id', () => {
+  const tracker = createTracker({minHits: 1, maxMisses: 2});
+  const [track] = tracker.update([person(box(0, 0))], 0);
+  tracker.update([], 33);
+  const [found] = tracker.update([person(box(0, 0))], 66);
+  assert.equal(found.id, track.id);
+  assert.equal(found.state, 'confirmed');
+});
+
+test('tentative tracks are not reported until minHits', () => {
+  const tracker = createTracker({minHits: 2});
+  assert.deepEqual(tracker.update([person(box(0, 0))], 0), []);
+  assert.equal(tracker.update([person(box(0, 0))], 33).length, 1);
+});
@@ -0,0 +1,301 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Multi-object tracker that assigns stable IDs to per-frame detections.
+ *
+ * Detections are associated with existing tracks by IoU against each track's
+ * motion-predicted box, falling back to a size-normalized centroid distance
+ * when the boxes no longer overlap (fast motion, low frame rates). Unmatched
+ * tracks coast on their predicted motion for a few frames so that short
+ * occlusions or missed detections do not produce a new ID.
+ *
+ * The module is free of DOM and MediaPipe dependencies so it can be driven by
+ * synthetic detection sequences.
+ */
+
+export interface BoundingBox {
+  originX: number;
+  originY: number;
+  width: number;
+  height: number;
+}
+
+export interface TrackerDetection {
+  bbox: BoundingBox;
+  category: string;
+  score: number;
+}
+
+export type TrackState = 'tentative' | 'confirmed' | 'coasting';
+
+export interface Track {
+  id: number;
+  bbox: BoundingBox;
+  category: string;
+  score: number;
+  state: TrackState;
+  // Number of frames the track has been matched to a detection.
+  hits: number;
+  // Consecutive frames without a matching detection.
+  misses: number;
+  firstSeen: number;
+  lastSeen: number;
+  // Index into the detections passed to the latest update, or -1 while
+  // coasting.
+  detectionIndex: number;
+}
+
+export interface TrackerOptions {
+  // Minimum IoU with a predicted box for a detection to be matched.
+  iouThreshold: number;
+  // Maximum centroid distance, relative to the track's box diagonal, for the
+  // fallback match when boxes do not overlap.
+  maxCenterDistance: number;
+  // Hits needed before a tentative track is confirmed and reported.
+  minHits: number;
+  // Frames a confirmed track may coast without detections before it is
+  // removed.
+  maxMisses: number;
+  // Weight of the latest measurement when updating velocity (0-1).
+  velocitySmoothing: number;
+  // Only associate detections with tracks of the same category.
+  matchCategory: boolean;
+}
+
+export const defaultTrackerOptions: TrackerOptions = {
+  iouThreshold: 0.3,
+  maxCenterDistance: 0.6,
+  minHits: 2,
+  maxMisses: 10,
+  velocitySmoothing: 0.5,
+  matchCategory: true,
+};
+
+export interface Tracker {
+  update(detections: TrackerDetection[], timestampMs: number): Track[];
+  getTracks(): Track[];
+  // The tracks with their boxes moved along their motion to a later time,
+  // without changing the tracker
+  predict(timestampMs: number): Track[];
+  reset(): void;
+}
+
+interface TrackEntry extends Track {
+  // Velocity of the box center and size, in pixels per millisecond.
+  vx: number;
+  vy: number;
+  vw: number;
+  vh: number;
+  lastUpdate: number;
+}
+
+export function iou(a: BoundingBox, b: BoundingBox): number {
+  const x1 = Math.max(a.originX, b.originX);
+  const y1 = Math.max(a.originY, b.originY);
+  const x2 = Math.min(a.originX + a.width, b.originX + b.width);
+  const y2 = Math.min(a.originY + a.height, b.originY + b.height);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+export function boxCenter(box: BoundingBox): {x: number; y: number} {
+  return {x: box.originX + box.width / 2, y: box.originY + box.height / 2};
+}
+
+function predictBox(track: TrackEntry, timestampMs: number): BoundingBox {
+  const dt = Math.max(0, timestampMs - track.lastUpdate);
+  const center = boxCenter(track.bbox);
+  const width = Math.max(1, track.bbox.width + track.vw * dt);
+  const height = Math.max(1, track.bbox.height + track.vh * dt);
+  return {
+    originX: center.x + track.vx * dt - width / 2,
+    originY: center.y + track.vy * dt - height / 2,
+    width,
+    height,
+  };
+}
+
+function toTrack(entry: TrackEntry): Track {
+  return {
+    id: entry.id,
+    bbox: {...entry.bbox},
+    category: entry.category,
+    score: entry.score,
+    state: entry.state,
+    hits: entry.hits,
+    misses: entry.misses,
+    firstSeen: entry.firstSeen,
+    lastSeen: entry.lastSeen,
+    detectionIndex: entry.detectionIndex,
+  };
+}
+
+/**
+ * Create a tracker. Call `update` once per processed frame with that frame's
+ * detections; it returns the confirmed tracks (including coasting ones).
+ */
+export function createTracker(options: Partial<TrackerOptions> = {}): Tracker {
+  const opts: TrackerOptions = {...defaultTrackerOptions, ...options};
+  let tracks: TrackEntry[] = [];
+  let nextId = 1;
+
+  function associate(
+    predicted: BoundingBox[],
+    detections: TrackerDetection[],
+  ): Map<number, number> {
+    const candidates: {track: number; detection: number; cost: number}[] = [];
+    for (let t = 0; t < tracks.length; t++) {
+      const box = predicted[t];
+      const center = boxCenter(box);
+      const diagonal = Math.hypot(box.width, box.height);
+      for (let d = 0; d < detections.length; d++) {
+        const detection = detections[d];
+        if (opts.matchCategory && detection.category !== tracks[t].category) {
+          continue;
+        }
+        const overlap = iou(box, detection.bbox);
+        if (overlap >= opts.iouThreshold) {
+          // IoU matches always rank ahead of centroid matches.
+          candidates.push({track: t, detection: d, cost: 1 - overlap});
+          continue;
+        }
+        const detCenter = boxCenter(detection.bbox);
+        const distance =
+          Math.hypot(center.x - detCenter.x, center.y - detCenter.y) /
+          Math.max(diagonal, 1);
+        if (distance <= opts.maxCenterDistance) {
+          candidates.push({track: t, detection: d, cost: 1 + distance});
+        }
+      }
+    }
+
+    // Greedy assignment by ascending cost is close enough to optimal for the
+    // handful of objects a single camera sees, and much cheaper.
+    candidates.sort((a, b) => a.cost - b.cost);
+    const matches = new Map<number, number>();
+    const usedDetections = new Set<number>();
+    for (const candidate of candidates) {
+      if (
+        matches.has(candidate.track) ||
+        usedDetections.has(candidate.detection)
+      )
+        continue;
+      matches.set(candidate.track, candidate.detection);
+      usedDetections.add(candidate.detection);
+    }
+    return matches;
+  }
+
+  function update(detections: TrackerDetection[], timestampMs: number) {
+    const predicted = tracks.map((track) => predictBox(track, timestampMs));
+    const matches = associate(predicted, detections);
+    const matchedDetections = new Set(matches.values());
+    const alpha = opts.velocitySmoothing;
+
+    tracks.forEach((track, t) => {
+      const d = matches.get(t);
+      if (d === undefined) {
+        track.misses++;
+        track.detectionIndex = -1;
+        if (track.state === 'confirmed') track.state = 'coasting';
+        // Coast on the predicted box so the overlay keeps following.
+        track.bbox = predicted[t];
+        track.lastUpdate = timestampMs;
+        return;
+      }
+
+      const detection = detections[d];
+      const dt = timestampMs - track.lastUpdate;
+      if (dt > 0) {
+        const prev = boxCenter(track.bbox);
+        const next = boxCenter(detection.bbox);
+        track.vx = alpha * ((next.x - prev.x) / dt) + (1 - alpha) * track.vx;
+        track.vy = alpha * ((next.y - prev.y) / dt) + (1 - alpha) * track.vy;
+        track.vw =
+          alpha * ((detection.bbox.width - track.bbox.width) / dt) +
+          (1 - alpha) * track.vw;
+        track.vh =
+          alpha * ((detection.bbox.height - track.bbox.height) / dt) +
+          (1 - alpha) * track.vh;
+      }
+      track.bbox = {...detection.bbox};
+      track.score = detection.score;
+      track.hits++;
+      track.misses = 0;
+      track.lastSeen = timestampMs;
+      track.lastUpdate = timestampMs;
+      track.detectionIndex = d;
+      if (track.state === 'coasting' || track.hits >= opts.minHits) {
+        track.state = 'confirmed';
+      }
+    });
+
+    // Tentative tracks die on their first miss; confirmed ones may coast.
+    tracks = tracks.filter((track) =>
+      track.state === 'tentative'
+        ? track.misses === 0
+        : track.misses <= opts.maxMisses,
+    );
+
+    detections.forEach((detection, d) => {
+      if (matchedDetections.has(d)) return;
+      tracks.push({
+        id: nextId++,
+        bbox: {...detection.bbox},
+        category: detection.category,
+        score: detection.score,
+        state: opts.minHits <= 1 ? 'confirmed' : 'tentative',
+        hits: 1,
+        misses: 0,
+        firstSeen: timestampMs,
+        lastSeen: timestampMs,
+        detectionIndex: d,
+        vx: 0,
+        vy: 0,
+        vw: 0,
+        vh: 0,
+        lastUpdate: timestampMs,
+      });
+    });
+
+    return getTracks();
+  }
+
+  function getTracks(): Track[] {
+    return tracks.filter((track) => track.state !== 'tentative').map(toTrack);
+  }
+
+  function predict(timestampMs: number): Track[] {
+    return tracks
+      .filter((track) => track.state !== 'tentative')
+      .map((track) => ({
+        ...toTrack(track),
+        bbox: predictBox(track, timestampMs),
+      }));
+  }
+
+  function reset() {
+    tracks = [];
+    nextId = 1;
+  }
+
+  return {update, getTracks, predict, reset};
+}
@@ -0,0 +1,327 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Virtual tripwires that count tracked objects crossing them.
+ *
+ * A tripwire is a segment from A to B in normalized frame coordinates. Its
+ * forward direction points to the right of A->B in the frame, which is the
+ * side the overlay draws its arrow on. Each track's side of each wire is
+ * only updated once its center is clearly on one side, more than the
+ * hysteresis band away from the line, so a track jittering on the line is
+ * not counted over and over. A change of side counts as a crossing if the
+ * path between the two positions actually passes through the segment, not
+ * around one of its ends.
+ *
+ * Counts cover every crossing since the last reset; the crossings
+ * themselves are kept up to `MAX_CROSSINGS`, oldest dropped first, and the
+ * number dropped is kept so that exports can say they are incomplete.
+ *
+ * Like the tracker, this module has no DOM dependencies.
+ */
+
+import {boxCenter, Track} from './tracker.tsx';
+import {Point} from './viewport.tsx';
+
+export interface Tripwire {
+  id: string;
+  name: string;
+  // Endpoints in normalized frame coordinates
+  a: Point;
+  b: Point;
+}
+
+export type CrossingDirection = 'forward' | 'backward';
+
+export interface Crossing {
+  tripwireId: string;
+  trackId: number;
+  category: string;
+  direction: CrossingDirection;
+  // Date.now() when the crossing was seen
+  timestampMs: number;
+  // Position in the video or image sequence; null for live sources
+  mediaTimeMs: number | null;
+}
+
+export interface DirectionCounts {
+  forward: number;
+  backward: number;
+}
+
+export interface TripwireCounterOptions {
+  // Half-width of the band around a wire that does not change a track's
+  // side, as a fraction of the frame diagonal
+  hysteresis: number;
+}
+
+export const MAX_CROSSINGS = 10000;
+
+export const defaultTripwireCounterOptions: TripwireCounterOptions = {
+  hysteresis: 0.02,
+};
+
+export interface CrossingBucket {
+  // 'media' buckets are positions in a video or image sequence, 'wall'
+  // buckets are Date.now() times
+  timeBase: 'wall' | 'media';
+  startMs: number;
+  tripwireId: string;
+  category: string;
+  counts: DirectionCounts;
+}
+
+export interface TripwireCounter {
+  /**
+   * Evaluate one frame.
+   * @param tracks The frame's tracks, in frame pixels
+   * @param frameSize The frame's size
+   * @param timestampMs Recorded with the crossings, e.g. Date.now()
+   * @param mediaTimeMs The frame's position in the media, or null for a
+   *     live source
+   * @returns The crossings in this frame
+   */
+  update(
+    tracks: Track[],
+    frameSize: {width: number; height: number},
+    timestampMs: number,
+    mediaTimeMs: number | null,
+  ): Crossing[];
+  // Counts of removed wires are dropped
+  setTripwires(tripwires: Tripwire[]): void;
+  // Counts by tripwire id, then category
+  counts(): Map<string, Record<string, DirectionCounts>>;
+  // The latest `MAX_CROSSINGS` crossings since the last reset, oldest first
+  crossings(): Crossing[];
+  // Crossings counted but no longer in `crossings()`
+  droppedCrossings(): number;
+  resetCounts(): void;
+  // Forget which side tracks were on, e.g. after a seek; counts are kept
+  resetTracks(): void;
+  getOptions(): TripwireCounterOptions;
+  setOptions(options: Partial<TripwireCounterOptions>): void;
+}
+
+function cross(o: Point, a: Point, b: Point) {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+/**
+ * Whether segments p1-p2 and q1-q2 intersect, touching included.
+ */
+export function segmentsIntersect(
+  p1: Point,
+  p2: Point,
+  q1: Point,
+  q2: Point,
+): boolean {
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+  return d1 * d2 <= 0 && d3 * d4 <= 0;
+}
+
+/**
+ * Sum crossings into fixed time buckets, per tripwire and category.
+ * Crossings in a video or image sequence are bucketed by media time, live
+ * ones by wall-clock time.
+ * @param crossings The crossings to sum
+ * @param bucketMs Bucket length
+ * @returns Buckets that saw any crossing, wall-clock buckets first, each
+ *     in time order
+ */
+export function bucketCrossings(
+  crossings: Crossing[],
+  bucketMs: number,
+): CrossingBucket[] {
+  const buckets = new Map<string, CrossingBucket>();
+  for (const crossing of crossings) {
+    const timeBase = crossing.mediaTimeMs === null ? 'wall' : 'media';
+    const time = crossing.mediaTimeMs ?? crossing.timestampMs;
+    const startMs = Math.floor(time / bucketMs) * bucketMs;
+    const key = JSON.stringify([
+      timeBase,
+      startMs,
+      crossing.tripwireId,
+      crossing.category,
+    ]);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = {
+        timeBase,
+        startMs,
+        tripwireId: crossing.tripwireId,
+        category: crossing.category,
+        counts: {forward: 0, backward: 0},
+      };
+      buckets.set(key, bucket);
+    }
+    bucket.counts[crossing.direction]++;
+  }
+  return [...buckets.values()].sort(
+    (a, b) =>
+      (a.timeBase === b.timeBase ? 0 : a.timeBase === 'wall' ? -1 : 1) ||
+      a.startMs - b.startMs,
+  );
+}
+
+interface TrackSide {
+  // -1 left of A->B, 1 right of it
+  side: number;
+  // Where the track last was clearly on that side, in frame pixels
+  point: Point;
+}
+
+export function createTripwireCounter(
+  options?: Partial<TripwireCounterOptions>,
+): TripwireCounter {
+  let opts: TripwireCounterOptions = {
+    ...defaultTripwireCounterOptions,
+    ...options,
+  };
+  let tripwires: Tripwire[] = [];
+  let log: Crossing[] = [];
+  // Tripwire id -> category -> counts, over every crossing
+  let totals = new Map<string, Record<string, DirectionCounts>>();
+  // Tripwire id -> crossings dropped from the log
+  let dropped = new Map<string, number>();
+  // Tripwire id -> track id -> side
+  const sides = new Map<string, Map<number, TrackSide>>();
+
+  function update(
+    tracks: Track[],
+    frameSize: {width: number; height: number},
+    timestampMs: number,
+    mediaTimeMs: number | null,
+  ) {
+    const band =
+      opts.hysteresis * Math.hypot(frameSize.width, frameSize.height);
+    const found: Crossing[] = [];
+    for (const tripwire of tripwires) {
+      const a = {
+        x: tripwire.a.x * frameSize.width,
+        y: tripwire.a.y * frameSize.height,
+      };
+      const b = {
+        x: tripwire.b.x * frameSize.width,
+        y: tripwire.b.y * frameSize.height,
+      };
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      if (length === 0) continue;
+      const wireSides = sides.get(tripwire.id) ?? new Map<number, TrackSide>();
+      sides.set(tripwire.id, wireSides);
+
+      const alive = new Set<number>();
+      for (const track of tracks) {
+        alive.add(track.id);
+        const point = boxCenter(track.bbox);
+        // Signed distance; positive is right of A->B with y pointing down
+        const distance = cross(a, b, point) / length;
+        if (Math.abs(distance) <= band) continue;
+        const side = Math.sign(distance);
+        const previous = wireSides.get(track.id);
+        wireSides.set(track.id, {side, point});
+        if (
+          !previous ||
+          previous.side === side ||
+          !segmentsIntersect(previous.point, point, a, b)
+        ) {
+          continue;
+        }
+        found.push({
+          tripwireId: tripwire.id,
+          trackId: track.id,
+          category: track.category,
+          direction: side > 0 ? 'forward' : 'backward',
+          timestampMs,
+          mediaTimeMs,
+        });
+      }
+      for (const trackId of wireSides.keys()) {
+        if (!alive.has(trackId)) wireSides.delete(trackId);
+      }
+    }
+    for (const crossing of found) {
+      let byCategory = totals.get(crossing.tripwireId);
+      if (!byCategory) {
+        byCategory = {};
+        totals.set(crossing.tripwireId, byCategory);
+      }
+      byCategory[crossing.category] ??= {forward: 0, backward: 0};
+      byCategory[crossing.category][crossing.direction]++;
+    }
+    log.push(...found);
+    if (log.length > MAX_CROSSINGS) {
+      for (const crossing of log.splice(0, log.length - MAX_CROSSINGS)) {
+        const id = crossing.tripwireId;
+        dropped.set(id, (dropped.get(id) ?? 0) + 1);
+      }
+    }
+    return found;
+  }
+
+  return {
+    update,
+    setTripwires(next) {
+      tripwires = next;
+      const ids = new Set(next.map((tripwire) => tripwire.id));
+      for (const id of sides.keys()) {
+        if (!ids.has(id)) sides.delete(id);
+      }
+      log = log.filter((crossing) => ids.has(crossing.tripwireId));
+      for (const id of totals.keys()) {
+        if (!ids.has(id)) totals.delete(id);
+      }
+      for (const id of dropped.keys()) {
+        if (!ids.has(id)) dropped.delete(id);
+      }
+    },
+    counts() {
+      // A copy, so callers can tell counts apart by identity
+      const result = new Map<string, Record<string, DirectionCounts>>();
+      for (const [id, byCategory] of totals) {
+        const copy: Record<string, DirectionCounts> = {};
+        for (const category in byCategory) {
+          copy[category] = {...byCategory[category]};
+        }
+        result.set(id, copy);
+      }
+      return result;
+    },
+    crossings: () => log,
+    droppedCrossings() {
+      let count = 0;
+      for (const n of dropped.values()) count += n;
+      return count;
+    },
+    resetCounts() {
+      log = [];
+      totals = new Map();
+      dropped = new Map();
+    },
+    resetTracks() {
+      sides.clear();
+    },
+    getOptions: () => opts,
+    setOptions(changes) {
+      opts = {...opts, ...changes};
+    },
+  };
+}
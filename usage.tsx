@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Gemini token usage and cost accounting.
+ *
+ * Every usage event reported by the Gemini client is added to per-mode and
+ * per-session totals. Budgets cap tokens per rolling minute and per
+ * session, plus an optional session cost; callers that send requests on
+ * their own (live analysis) check `budgetStatus` first and hold off while a
+ * cap is reached. The token caps apply to every model, but the cost cap
+ * needs pricing for the model: once a request goes to a model without it,
+ * a set cost cap counts as reached.
+ */
+
+import {GeminiUsageEvent} from './gemini.tsx';
+
+const MINUTE_MS = 60000;
+
+// USD per million tokens. Thinking tokens are billed as output. These are
+// list prices at the time of writing and only used for estimates.
+export const MODEL_PRICING: Record<string, {input: number; output: number}> = {
+  'gemini-2.5-flash': {input: 0.3, output: 2.5},
+  'gemini-2.5-flash-lite': {input: 0.1, output: 0.4},
+  'gemini-2.5-pro': {input: 1.25, output: 10},
+  'gemini-2.0-flash': {input: 0.1, output: 0.4},
+};
+
+export interface UsageBudgets {
+  // 0 means no limit
+  tokensPerMinute: number;
+  tokensPerSession: number;
+  costPerSession: number;
+}
+
+export const defaultUsageBudgets: UsageBudgets = {
+  tokensPerMinute: 50000,
+  tokensPerSession: 1000000,
+  costPerSession: 0,
+};
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  responseTokens: number;
+  thoughtsTokens: number;
+  totalTokens: number;
+  // Estimated cost of the requests with known pricing
+  costUsd: number;
+  // Requests to models without known pricing, which costUsd leaves out
+  unpricedRequests: number;
+}
+
+export interface UsageSnapshot {
+  sessionStartedAt: number;
+  session: UsageTotals;
+  // Keyed by request tag (the app mode), 'other' if untagged
+  byMode: Record<string, UsageTotals>;
+  lastMinuteTokens: number;
+  budgets: UsageBudgets;
+  status: BudgetStatus;
+}
+
+// 'cost-unknown': a session cost cap is set but some requests went to a
+// model without known pricing, so the cap cannot be checked
+export type BudgetLimit =
+  'minute' | 'session-tokens' | 'session-cost' | 'cost-unknown';
+
+export interface BudgetStatus {
+  // The first cap found to be reached, or null while within budget
+  exceeded: BudgetLimit | null;
+  // When the per-minute cap frees up again; null for session caps
+  resumesAt: number | null;
+}
+
+export interface UsageTracker {
+  record(event: GeminiUsageEvent): void;
+  budgetStatus(now?: number): BudgetStatus;
+  snapshot(now?: number): UsageSnapshot;
+  getBudgets(): UsageBudgets;
+  setBudgets(budgets: Partial<UsageBudgets>): void;
+  // Start a new session; budgets are kept
+  resetSession(): void;
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * The estimated price of one request.
+ * @returns USD, or null if the model's pricing is unknown
+ */
+export function estimateCost(event: GeminiUsageEvent): number | null {
+  const pricing = MODEL_PRICING[event.model];
+  if (!pricing) return null;
+  const {promptTokens, responseTokens, thoughtsTokens} = event.usage;
+  return (
+    (promptTokens * pricing.input +
+      (responseTokens + thoughtsTokens) * pricing.output) /
+    1e6
+  );
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    promptTokens: 0,
+    responseTokens: 0,
+    thoughtsTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    unpricedRequests: 0,
+  };
+}
+
+function addTo(totals: UsageTotals, event: GeminiUsageEvent) {
+  const cost = estimateCost(event);
+  totals.requests++;
+  totals.promptTokens += event.usage.promptTokens;
+  totals.responseTokens += event.usage.responseTokens;
+  totals.thoughtsTokens += event.usage.thoughtsTokens;
+  totals.totalTokens += event.usage.totalTokens;
+  if (cost === null) {
+    totals.unpricedRequests++;
+  } else {
+    totals.costUsd += cost;
+  }
+}
+
+export function createUsageTracker(
+  budgets?: Partial<UsageBudgets>,
+): UsageTracker {
+  let limits: UsageBudgets = {...defaultUsageBudgets, ...budgets};
+  let sessionStartedAt = Date.now();
+  let session = emptyTotals();
+  let byMode = new Map<string, UsageTotals>();
+  // Recent events for the rolling minute
+  let recent: Array<{timestamp: number; tokens: number}> = [];
+  const listeners = new Set<() => void>();
+
+  function notify() {
+    for (const listener of listeners) listener();
+  }
+
+  function lastMinute(now: number) {
+    recent = recent.filter((entry) => now - entry.timestamp < MINUTE_MS);
+    return recent.reduce((total, entry) => total + entry.tokens, 0);
+  }
+
+  function budgetStatus(now = Date.now()): BudgetStatus {
+    if (
+      limits.tokensPerSession > 0 &&
+      session.totalTokens >= limits.tokensPerSession
+    ) {
+      return {exceeded: 'session-tokens', resumesAt: null};
+    }
+    if (limits.costPerSession > 0) {
+      if (session.costUsd >= limits.costPerSession) {
+        return {exceeded: 'session-cost', resumesAt: null};
+      }
+      // Refuse rather than let spending go unchecked
+      if (session.unpricedRequests > 0) {
+        return {exceeded: 'cost-unknown', resumesAt: null};
+      }
+    }
+    if (limits.tokensPerMinute > 0) {
+      let tokens = lastMinute(now);
+      if (tokens >= limits.tokensPerMinute) {
+        // Resume once enough of the window has expired to drop below the cap
+        let resumesAt = now;
+        for (const entry of recent) {
+          tokens -= entry.tokens;
+          resumesAt = entry.timestamp + MINUTE_MS;
+          if (tokens < limits.tokensPerMinute) break;
+        }
+        return {exceeded: 'minute', resumesAt};
+      }
+    }
+    return {exceeded: null, resumesAt: null};
+  }
+
+  return {
+    record(event) {
+      addTo(session, event);
+      const mode = event.tag ?? 'other';
+      let totals = byMode.get(mode);
+      if (!totals) {
+        totals = emptyTotals();
+        byMode.set(mode, totals);
+      }
+      addTo(totals, event);
+      recent.push({
+        timestamp: event.timestamp,
+        tokens: event.usage.totalTokens,
+      });
+      notify();
+    },
+    budgetStatus,
+    snapshot(now = Date.now()) {
+      return {
+        sessionStartedAt,
+        session: {...session},
+        byMode: Object.fromEntries(
+          [...byMode].map(([mode, totals]) => [mode, {...totals}]),
+        ),
+        lastMinuteTokens: lastMinute(now),
+        budgets: limits,
+        status: budgetStatus(now),
+      };
+    },
+    getBudgets: () => limits,
+    setBudgets(changes) {
+      limits = {...limits, ...changes};
+      notify();
+    },
+    resetSession() {
+      sessionStartedAt = Date.now();
+      session = emptyTotals();
+      byMode = new Map();
+      recent = [];
+      notify();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * The occupancy heatmap in the live view: accumulating every detected
+ * frame, the panel's dwell statistics, drawing the heatmap under the
+ * overlay, and its PNG and JSON exports.
+ */
+
+import {useEffect, useRef, useState} from 'react';
+import {composeFrame} from './capture.tsx';
+import {
+  createOccupancyHeatmap,
+  drawHeatmap,
+  HeatmapLayer,
+  renderHeatmap,
+} from './heatmap.tsx';
+import {FrameResult} from './loop.tsx';
+import {InputSource} from './sources.tsx';
+import {downloadBlob, downloadJson} from './utils.tsx';
+import {createViewport, OverlayContext, Viewport} from './viewport.tsx';
+
+// How often the heatmap panel's dwell statistics refresh
+const HEATMAP_STATS_INTERVAL_MS = 1000;
+// How often the drawn heatmap is rendered again while it accumulates;
+// redraws in between reuse the last rendering
+const HEATMAP_RENDER_INTERVAL_MS = 500;
+
+interface UseHeatmapOptions {
+  getSource: () => InputSource | null;
+  // Whether the dwell statistics are shown and should be kept current
+  statsVisible: boolean;
+  // Draws the overlay again, e.g. once the heatmap is shown while paused
+  redraw: () => void;
+}
+
+export function useHeatmap({
+  getSource,
+  statsVisible,
+  redraw,
+}: UseHeatmapOptions) {
+  const [heatmap] = useState(() => createOccupancyHeatmap());
+  const [visible, setVisible] = useState<boolean>(false);
+  const [layer, setLayer] = useState<HeatmapLayer>({type: 'all'});
+  const [stats, setStats] = useState(() => ({
+    categories: heatmap.categories(),
+    dwell: heatmap.dwell(),
+  }));
+  const lastStatsUpdate = useRef<number>(0);
+  // The last rendering, and whether time was added since
+  const rendered = useRef<{
+    image: OffscreenCanvas;
+    layer: HeatmapLayer;
+    renderedAt: number;
+  } | null>(null);
+  const changed = useRef<boolean>(false);
+
+  useEffect(() => {
+    if (statsVisible) refreshStats();
+  }, [statsVisible]);
+
+  useEffect(() => {
+    redraw();
+  }, [visible, layer]);
+
+  function refreshStats() {
+    lastStatsUpdate.current = performance.now();
+    setStats({categories: heatmap.categories(), dwell: heatmap.dwell()});
+  }
+
+  function reset() {
+    heatmap.reset();
+    rendered.current = null;
+    setLayer({type: 'all'});
+    refreshStats();
+    redraw();
+  }
+
+  function handleFrame(frame: FrameResult) {
+    // Track ids restart, so records are closed; the time stays
+    if (frame.discontinuity) heatmap.resetTracks();
+    heatmap.update(
+      frame.tracks,
+      {width: frame.source.width(), height: frame.source.height()},
+      frame.timestampMs,
+    );
+    changed.current = true;
+    const now = performance.now();
+    if (
+      statsVisible &&
+      now - lastStatsUpdate.current > HEATMAP_STATS_INTERVAL_MS
+    ) {
+      refreshStats();
+    }
+  }
+
+  function draw(ctx: OverlayContext, view: Viewport) {
+    if (!visible) return;
+    const now = performance.now();
+    let cache = rendered.current;
+    if (
+      !cache ||
+      cache.layer !== layer ||
+      (changed.current && now - cache.renderedAt > HEATMAP_RENDER_INTERVAL_MS)
+    ) {
+      const {cols, rows} = heatmap.getOptions();
+      cache = {
+        image: renderHeatmap(heatmap.grid(layer), cols, rows),
+        layer,
+        renderedAt: now,
+      };
+      rendered.current = cache;
+      changed.current = false;
+    }
+    drawHeatmap(ctx, view, cache.image);
+  }
+
+  async function exportPng() {
+    const source = getSource();
+    if (!source?.ready()) return;
+    // At the frame's own resolution, unmirrored, over the current frame
+    const view = createViewport({
+      frameWidth: source.width(),
+      frameHeight: source.height(),
+      screenWidth: source.width(),
+      screenHeight: source.height(),
+      fit: 'contain',
+      mirrored: false,
+      devicePixelRatio: 1,
+    });
+    const {cols, rows} = heatmap.getOptions();
+    const image = renderHeatmap(heatmap.grid(layer), cols, rows);
+    const canvas = composeFrame(view, source.element, (ctx, v) =>
+      drawHeatmap(ctx, v, image),
+    );
+    downloadBlob(
+      `heatmap-${Date.now()}.png`,
+      await canvas.convertToBlob({type: 'image/png'}),
+    );
+  }
+
+  function exportJson() {
+    const source = getSource();
+    downloadJson(`heatmap-${Date.now()}.json`, {
+      exportedAt: new Date().toISOString(),
+      frameWidth: source?.width() ?? null,
+      frameHeight: source?.height() ?? null,
+      ...heatmap.toJSON(),
+    });
+  }
+
+  return {
+    visible,
+    onVisibleChange: setVisible,
+    layer,
+    onLayerChange: setLayer,
+    categories: stats.categories,
+    dwell: stats.dwell,
+    exportPng,
+    exportJson,
+    reset,
+    handleFrame,
+    draw,
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Annotated recording of the live view: capturing the view with its
+ * overlay on every tick, the detections of every frame, and saving the
+ * video with its sidecar.
+ */
+
+import {useEffect, useRef, useState} from 'react';
+import {FrameResult, RenderLoop} from './loop.tsx';
+import {createOverlayRecorder} from './recording.tsx';
+import {InputSource} from './sources.tsx';
+import {downloadBlob, downloadJson} from './utils.tsx';
+
+// How often the shown recording time updates
+const RECORDING_TIME_INTERVAL_MS = 500;
+
+interface UseRecordingOptions {
+  getLoop: () => RenderLoop | null;
+  getSource: () => InputSource | null;
+  // Puts a failure to start or save on the timeline
+  logError: (message: string, error: unknown) => void;
+}
+
+export function useRecording({
+  getLoop,
+  getSource,
+  logError,
+}: UseRecordingOptions) {
+  const [recorder] = useState(createOverlayRecorder);
+  const [state, setState] = useState<'idle' | 'recording' | 'saving'>('idle');
+  const [elapsedMs, setElapsedMs] = useState<number>(0);
+  const lastTimeUpdate = useRef<number>(0);
+
+  // An unfinished recording is discarded on unmount
+  useEffect(() => () => recorder.cancel(), []);
+
+  function handleFrame(frame: FrameResult) {
+    recorder.addFrame(frame);
+  }
+
+  function handleTick(source: InputSource | null) {
+    const view = getLoop()?.getViewport();
+    if (!recorder.isRecording() || !source?.ready() || !view) return;
+    recorder.capture(source.element, view, (ctx, v) =>
+      getLoop()!.renderOverlay(ctx, v),
+    );
+    const now = performance.now();
+    if (now - lastTimeUpdate.current > RECORDING_TIME_INTERVAL_MS) {
+      lastTimeUpdate.current = now;
+      setElapsedMs(recorder.elapsedMs());
+    }
+  }
+
+  async function toggle() {
+    if (state === 'saving') return;
+    if (state === 'idle') {
+      const source = getSource();
+      const view = getLoop()?.getViewport();
+      if (!source?.ready() || !view) return;
+      try {
+        recorder.start(view, source.label);
+      } catch (e) {
+        console.error('Failed to start recording', e);
+        logError('Failed to start recording', e);
+        return;
+      }
+      setElapsedMs(0);
+      setState('recording');
+      return;
+    }
+    setState('saving');
+    try {
+      const {video, sidecar} = await recorder.stop();
+      // The sidecar shares the video's name so the two stay together
+      const name = `recording-${Date.now()}`;
+      downloadBlob(`${name}.webm`, video);
+      downloadJson(`${name}.json`, sidecar);
+    } catch (e) {
+      console.error('Failed to save recording', e);
+      logError('Failed to save recording', e);
+    } finally {
+      setState('idle');
+    }
+  }
+
+  return {state, elapsedMs, toggle, handleFrame, handleTick};
+}
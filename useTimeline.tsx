@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * The session timeline in the live view: logging track appearances and
+ * disappearances from every frame, errors, and the timeline exports.
+ */
+
+import {useEffect, useRef} from 'react';
+import {eventsToCsvRows, eventsToJsonLines, getEventBus} from './events.tsx';
+import {FrameResult} from './loop.tsx';
+import {Track} from './tracker.tsx';
+import {downloadBlob, downloadCsv} from './utils.tsx';
+
+interface UseTimelineOptions {
+  // The error shown to the user, logged whenever it changes
+  errorMessage: string;
+}
+
+export function useTimeline({errorMessage}: UseTimelineOptions) {
+  const bus = getEventBus();
+  // Tracks of the last frame, to log appearances and disappearances
+  const loggedTracks = useRef(new Map<number, Track>());
+
+  // Errors shown to the user go on the timeline too
+  useEffect(() => {
+    if (errorMessage) bus.emit('error', 'shown', errorMessage);
+  }, [errorMessage]);
+
+  function logError(message: string, error: unknown) {
+    bus.emit(
+      'error',
+      'failed',
+      `${message}: ${error instanceof Error ? error.message : error}`,
+      {message, error: String(error)},
+    );
+  }
+
+  // Compares the frame's tracks with the previous frame's. After a
+  // discontinuity ids restart, so every old track has disappeared and every
+  // track is new.
+  function handleFrame({tracks, mediaTimeMs, discontinuity}: FrameResult) {
+    const previous: Map<number, Track> = discontinuity
+      ? new Map()
+      : loggedTracks.current;
+    const current = new Map<number, Track>(
+      tracks.map((track) => [track.id, track]),
+    );
+    for (const [id, track] of loggedTracks.current as Map<number, Track>) {
+      if (previous.has(id) && current.has(id)) continue;
+      bus.emit('track', 'disappeared', `#${id} ${track.category}`, {
+        trackId: id,
+        category: track.category,
+        mediaTimeMs,
+        lastSeenMs: track.lastSeen,
+      });
+    }
+    for (const [id, track] of current) {
+      if (previous.has(id)) continue;
+      bus.emit('track', 'appeared', `#${id} ${track.category}`, {
+        trackId: id,
+        category: track.category,
+        mediaTimeMs,
+        bbox: track.bbox,
+        score: track.score,
+      });
+    }
+    loggedTracks.current = current;
+  }
+
+  function exportJsonLines() {
+    downloadBlob(
+      `timeline-${Date.now()}.jsonl`,
+      new Blob([eventsToJsonLines(bus.events()) + '\n'], {
+        type: 'application/x-ndjson',
+      }),
+    );
+  }
+
+  function exportCsv() {
+    downloadCsv(`timeline-${Date.now()}.csv`, eventsToCsvRows(bus.events()));
+  }
+
+  return {bus, logError, handleFrame, exportJsonLines, exportCsv};
+}
@@ -0,0 +1,312 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Tripwires in the live view: the persisted lines, drawing a new one on
+ * the overlay, the crossing counter fed with every detected frame, the
+ * crossing export, and drawing the lines with their counts.
+ */
+
+import {useEffect, useState} from 'react';
+import {colors} from './consts.tsx';
+import {getEventBus} from './events.tsx';
+import {FrameResult} from './loop.tsx';
+import {drawLabel} from './overlay.tsx';
+import {
+  bucketCrossings,
+  createTripwireCounter,
+  CrossingBucket,
+  defaultTripwireCounterOptions,
+  Tripwire,
+  TripwireCounterOptions,
+} from './tripwires.tsx';
+import {downloadCsv} from './utils.tsx';
+import {
+  normalizedToScreen,
+  OverlayContext,
+  Point,
+  Viewport,
+} from './viewport.tsx';
+
+// Length of the direction arrow drawn on tripwires, in screen pixels
+const TRIPWIRE_ARROW_LENGTH = 24;
+
+function loadTripwires(): Tripwire[] {
+  try {
+    const tripwires = JSON.parse(localStorage.getItem('tripwires') || '[]');
+    return Array.isArray(tripwires) ? tripwires : [];
+  } catch {
+    return [];
+  }
+}
+
+function loadTripwireCounterOptions(): TripwireCounterOptions {
+  try {
+    return {
+      ...defaultTripwireCounterOptions,
+      ...JSON.parse(localStorage.getItem('tripwireCounterOptions') || '{}'),
+    };
+  } catch {
+    return defaultTripwireCounterOptions;
+  }
+}
+
+interface UseTripwiresOptions {
+  // Draws the overlay again, e.g. once lines or counts change while paused
+  redraw: () => void;
+}
+
+export function useTripwires({redraw}: UseTripwiresOptions) {
+  const [tripwires, setTripwires] = useState<Tripwire[]>(loadTripwires);
+  // Endpoints of the line being drawn, or null when not drawing
+  const [draft, setDraft] = useState<Point[] | null>(null);
+  const [counter] = useState(() =>
+    createTripwireCounter(loadTripwireCounterOptions()),
+  );
+  const [options, setOptions] = useState(() => counter.getOptions());
+  const [counts, setCounts] = useState(() => counter.counts());
+  // Bucket length of the crossing export
+  const [bucketMs, setBucketMs] = useState<number>(
+    () => Number(localStorage.getItem('crossingBucketMs')) || 60000,
+  );
+  const eventBus = getEventBus();
+
+  useEffect(() => {
+    counter.setTripwires(tripwires);
+    setCounts(counter.counts());
+  }, [tripwires]);
+
+  useEffect(() => {
+    redraw();
+  }, [tripwires, draft, counts]);
+
+  // Esc abandons the line being drawn
+  useEffect(() => {
+    if (draft === null) return;
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') setDraft(null);
+    }
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [draft]);
+
+  function handleTripwiresChange(next: Tripwire[]) {
+    setTripwires(next);
+    localStorage.setItem('tripwires', JSON.stringify(next));
+  }
+
+  function handleHysteresisChange(hysteresis: number) {
+    counter.setOptions({hysteresis});
+    const next = counter.getOptions();
+    setOptions(next);
+    localStorage.setItem('tripwireCounterOptions', JSON.stringify(next));
+  }
+
+  function handleBucketMsChange(next: number) {
+    setBucketMs(next);
+    localStorage.setItem('crossingBucketMs', String(next));
+  }
+
+  function resetCounts() {
+    counter.resetCounts();
+    setCounts(counter.counts());
+  }
+
+  function exportCrossings() {
+    const names = new Map<string, string>(
+      tripwires.map((tripwire: Tripwire) => [tripwire.id, tripwire.name]),
+    );
+    const crossings = counter.crossings();
+    const buckets = bucketCrossings(crossings, bucketMs);
+    const dropped = counter.droppedCrossings();
+    // Wall-clock buckets as ISO times, media buckets as seconds into the
+    // video or image sequence
+    const time = (timeBase: CrossingBucket['timeBase'], ms: number) =>
+      timeBase === 'wall' ? new Date(ms).toISOString() : ms / 1000;
+    downloadCsv(`crossings-${Date.now()}.csv`, [
+      // Only the newest crossings are kept, so earlier buckets may be short
+      // of the counts shown in the panel
+      ...(dropped > 0
+        ? [
+            [
+              '# truncated',
+              `${dropped} earlier crossings dropped`,
+              crossings.length > 0
+                ? `first kept at ${new Date(crossings[0].timestampMs).toISOString()}`
+                : 'none kept',
+            ],
+          ]
+        : []),
+      [
+        'time_base',
+        'bucket_start',
+        'bucket_end',
+        'line',
+        'category',
+        'forward',
+        'backward',
+      ],
+      ...buckets.map((bucket) => [
+        bucket.timeBase,
+        time(bucket.timeBase, bucket.startMs),
+        time(bucket.timeBase, bucket.startMs + bucketMs),
+        names.get(bucket.tripwireId) ?? bucket.tripwireId,
+        bucket.category,
+        bucket.counts.forward,
+        bucket.counts.backward,
+      ]),
+    ]);
+  }
+
+  /**
+   * Place the start of the line being drawn, or its end, which finishes it.
+   * @param point The click in normalized frame coordinates
+   */
+  function handlePointerDown(point: Point) {
+    if (!draft) return;
+    if (draft.length === 0) {
+      setDraft([point]);
+      return;
+    }
+    const [a] = draft;
+    setDraft(null);
+    if (Math.hypot(point.x - a.x, point.y - a.y) < 1e-3) return;
+    handleTripwiresChange([
+      ...tripwires,
+      {
+        id: `line-${Date.now().toString(36)}`,
+        name: `Line ${tripwires.length + 1}`,
+        a,
+        b: point,
+      },
+    ]);
+  }
+
+  function handleFrame(frame: FrameResult) {
+    if (frame.discontinuity) counter.resetTracks();
+    // Crossings in a video or image sequence are bucketed by media time,
+    // so a file gives the same counts however fast it plays
+    const crossings = counter.update(
+      frame.tracks,
+      {width: frame.source.width(), height: frame.source.height()},
+      Date.now(),
+      frame.source.live ? null : frame.mediaTimeMs,
+    );
+    if (crossings.length === 0) return;
+    setCounts(counter.counts());
+    for (const crossing of crossings) {
+      const name =
+        tripwires.find(({id}) => id === crossing.tripwireId)?.name ??
+        crossing.tripwireId;
+      eventBus.emit(
+        'crossing',
+        crossing.direction,
+        `#${crossing.trackId} ${crossing.category} crossed ${name} ${crossing.direction}`,
+        {...crossing, tripwireName: name},
+      );
+    }
+  }
+
+  function draw(ctx: OverlayContext, view: Viewport) {
+    tripwires.forEach((tripwire, index) => {
+      const color = colors[index % colors.length];
+      const a = normalizedToScreen(view, tripwire.a);
+      const b = normalizedToScreen(view, tripwire.b);
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+
+      // The arrow points to the forward side. Forward is defined in frame
+      // space, so find it there; mirroring may flip it on screen.
+      const frameA = {
+        x: tripwire.a.x * view.frameWidth,
+        y: tripwire.a.y * view.frameHeight,
+      };
+      const frameB = {
+        x: tripwire.b.x * view.frameWidth,
+        y: tripwire.b.y * view.frameHeight,
+      };
+      const frameMid = {
+        x: (frameA.x + frameB.x) / 2,
+        y: (frameA.y + frameB.y) / 2,
+      };
+      const mid = {x: (a.x + b.x) / 2, y: (a.y + b.y) / 2};
+      const side = normalizedToScreen(view, {
+        x: (frameMid.x - (frameB.y - frameA.y)) / view.frameWidth,
+        y: (frameMid.y + (frameB.x - frameA.x)) / view.frameHeight,
+      });
+      const length = Math.hypot(side.x - mid.x, side.y - mid.y) || 1;
+      const tip = {
+        x: mid.x + ((side.x - mid.x) / length) * TRIPWIRE_ARROW_LENGTH,
+        y: mid.y + ((side.y - mid.y) / length) * TRIPWIRE_ARROW_LENGTH,
+      };
+      ctx.beginPath();
+      ctx.moveTo(mid.x, mid.y);
+      ctx.lineTo(tip.x, tip.y);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(tip.x, tip.y, 4, 0, 2 * Math.PI);
+      ctx.fill();
+
+      const totals = {forward: 0, backward: 0};
+      const byCategory = counts.get(tripwire.id) ?? {};
+      for (const category of Object.keys(byCategory)) {
+        totals.forward += byCategory[category].forward;
+        totals.backward += byCategory[category].backward;
+      }
+      drawLabel(
+        `${tripwire.name} →${totals.forward} ←${totals.backward}`,
+        a.x,
+        a.y,
+        ctx,
+        color,
+      );
+    });
+
+    if (draft?.length === 1) {
+      const start = normalizedToScreen(view, draft[0]);
+      ctx.fillStyle = '#FFFFFF';
+      ctx.beginPath();
+      ctx.arc(start.x, start.y, 5, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+  }
+
+  return {
+    tripwires,
+    onTripwiresChange: handleTripwiresChange,
+    counts,
+    draft,
+    startDrawing: () => setDraft([]),
+    cancelDrawing: () => setDraft(null),
+    hysteresis: options.hysteresis,
+    onHysteresisChange: handleHysteresisChange,
+    bucketMs,
+    onBucketMsChange: handleBucketMsChange,
+    resetCounts,
+    exportCrossings,
+    handlePointerDown,
+    handleFrame,
+    draw,
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Zones in the live view: the persisted zones, drawing a new one on the
+ * overlay, the zone monitor fed with every detected frame, and drawing
+ * the zones with their occupancy.
+ */
+
+import {useEffect, useState} from 'react';
+import {colors} from './consts.tsx';
+import {getEventBus} from './events.tsx';
+import {FrameResult} from './loop.tsx';
+import {drawLabel} from './overlay.tsx';
+import {
+  normalizedToScreen,
+  OverlayContext,
+  Point,
+  Viewport,
+} from './viewport.tsx';
+import {RecentZoneEvent} from './ZonePanel.tsx';
+import {
+  createZoneMonitor,
+  defaultZoneMonitorOptions,
+  Zone,
+  ZoneEvent,
+  ZoneMonitorOptions,
+} from './zones.tsx';
+
+// Zone events kept for the zone panel
+const MAX_RECENT_ZONE_EVENTS = 50;
+// A click this close to a zone's first corner, in screen pixels, closes it
+const ZONE_CLOSE_DISTANCE = 12;
+
+function loadZones(): Zone[] {
+  try {
+    const zones = JSON.parse(localStorage.getItem('zones') || '[]');
+    return Array.isArray(zones) ? zones : [];
+  } catch {
+    return [];
+  }
+}
+
+function loadZoneMonitorOptions(): ZoneMonitorOptions {
+  try {
+    return {
+      ...defaultZoneMonitorOptions,
+      ...JSON.parse(localStorage.getItem('zoneMonitorOptions') || '{}'),
+    };
+  } catch {
+    return defaultZoneMonitorOptions;
+  }
+}
+
+interface UseZonesOptions {
+  // Draws the overlay again, e.g. once zones change while paused
+  redraw: () => void;
+  // Called when a tracked object enters, leaves or dwells in a zone
+  onZoneEvent?: (event: ZoneEvent) => void;
+}
+
+export function useZones({redraw, onZoneEvent}: UseZonesOptions) {
+  const [zones, setZones] = useState<Zone[]>(loadZones);
+  // Corners of the zone being drawn, or null when not drawing
+  const [draft, setDraft] = useState<Point[] | null>(null);
+  const [monitor] = useState(() => createZoneMonitor(loadZoneMonitorOptions()));
+  const [options, setOptions] = useState(() => monitor.getOptions());
+  const [events, setEvents] = useState<RecentZoneEvent[]>([]);
+  const eventBus = getEventBus();
+
+  useEffect(() => {
+    monitor.setZones(zones);
+  }, [zones]);
+
+  useEffect(() => {
+    redraw();
+  }, [zones, draft]);
+
+  // Esc abandons the zone being drawn
+  useEffect(() => {
+    if (draft === null) return;
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') setDraft(null);
+    }
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [draft]);
+
+  function handleZonesChange(next: Zone[]) {
+    setZones(next);
+    localStorage.setItem('zones', JSON.stringify(next));
+  }
+
+  function handleDwellMsChange(dwellMs: number) {
+    monitor.setOptions({dwellMs});
+    const next = monitor.getOptions();
+    setOptions(next);
+    localStorage.setItem('zoneMonitorOptions', JSON.stringify(next));
+  }
+
+  /**
+   * Place a corner of the zone being drawn, or close it when the click is
+   * on its first corner.
+   * @param point The click in normalized frame coordinates
+   * @param screen The click in screen coordinates
+   * @param view The viewport the frame is shown with
+   */
+  function handlePointerDown(point: Point, screen: Point, view: Viewport) {
+    if (!draft) return;
+    if (draft.length >= 3) {
+      const first = normalizedToScreen(view, draft[0]);
+      if (
+        Math.hypot(first.x - screen.x, first.y - screen.y) < ZONE_CLOSE_DISTANCE
+      ) {
+        finishDrawing();
+        return;
+      }
+    }
+    setDraft([...draft, point]);
+  }
+
+  function finishDrawing() {
+    if (!draft) return;
+    // A double-click also places two corners on the same spot
+    const points = draft.filter(
+      (point, i) =>
+        i === 0 ||
+        Math.hypot(point.x - draft[i - 1].x, point.y - draft[i - 1].y) > 1e-3,
+    );
+    setDraft(null);
+    if (points.length < 3) return;
+    handleZonesChange([
+      ...zones,
+      {
+        id: `zone-${Date.now().toString(36)}`,
+        name: `Zone ${zones.length + 1}`,
+        points,
+        categories: [],
+      },
+    ]);
+  }
+
+  function handleFrame(frame: FrameResult) {
+    // Occupants are tracks, so they restart too; no exits are reported
+    if (frame.discontinuity) monitor.reset();
+    const found = monitor.update(
+      frame.tracks,
+      {width: frame.source.width(), height: frame.source.height()},
+      frame.timestampMs,
+    );
+    if (found.length === 0) return;
+    const at = Date.now();
+    for (const event of found) {
+      onZoneEvent?.(event);
+      eventBus.emit(
+        'zone',
+        event.type,
+        `#${event.trackId} ${event.category} ${event.type} ${event.zoneName}`,
+        {...event},
+      );
+    }
+    setEvents((previous) =>
+      [
+        ...[...found].reverse().map((event) => ({at, event})),
+        ...previous,
+      ].slice(0, MAX_RECENT_ZONE_EVENTS),
+    );
+  }
+
+  function draw(ctx: OverlayContext, view: Viewport) {
+    const occupancy = monitor.occupancy();
+    const tracePath = (points: Point[]) => {
+      ctx.beginPath();
+      points.forEach((point, i) => {
+        const screen = normalizedToScreen(view, point);
+        if (i === 0) ctx.moveTo(screen.x, screen.y);
+        else ctx.lineTo(screen.x, screen.y);
+      });
+    };
+
+    zones.forEach((zone, index) => {
+      if (zone.points.length < 3) return;
+      const color = colors[index % colors.length];
+      const count = occupancy.get(zone.id)?.length ?? 0;
+      tracePath(zone.points);
+      ctx.closePath();
+      // Occupied zones are filled more strongly
+      ctx.globalAlpha = count > 0 ? 0.3 : 0.12;
+      ctx.fillStyle = color;
+      ctx.fill();
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      const anchor = normalizedToScreen(view, zone.points[0]);
+      drawLabel(`${zone.name} (${count})`, anchor.x, anchor.y, ctx, color);
+    });
+
+    if (draft && draft.length > 0) {
+      tracePath(draft);
+      ctx.strokeStyle = '#FFFFFF';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#FFFFFF';
+      for (const point of draft) {
+        const screen = normalizedToScreen(view, point);
+        ctx.beginPath();
+        ctx.arc(screen.x, screen.y, 4, 0, 2 * Math.PI);
+        ctx.fill();
+      }
+    }
+  }
+
+  return {
+    zones,
+    onZonesChange: handleZonesChange,
+    occupancy: monitor.occupancy(),
+    draft,
+    startDrawing: () => setDraft([]),
+    finishDrawing,
+    cancelDrawing: () => setDraft(null),
+    dwellMs: options.dwellMs,
+    onDwellMsChange: handleDwellMsChange,
+    events,
+    handlePointerDown,
+    handleFrame,
+    draw,
+  };
+}
@@ -51,3 +51,93 @@ export function loadImage(src: string): Promise<HTMLImageElement> {
     img.src = src;
   });
 }
+
+/**
+ * Trigger a browser download of a Blob.
+ * @param filename The suggested file name
+ * @param blob The file contents
+ */
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Some browsers start the download after click() returns; revoking the
+  // URL right away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Trigger a browser download of a value serialized as pretty-printed JSON.
+ * @param filename The suggested file name
+ * @param data The value to serialize
+ */
+export function downloadJson(filename: string, data: unknown) {
+  downloadBlob(
+    filename,
+    new Blob([JSON.stringify(data, null, 2)], {type: 'application/json'}),
+  );
+}
+
+/**
+ * Trigger a browser download of rows as CSV. Fields are quoted where they
+ * contain a comma, quote or line break.
+ * @param filename The suggested file name
+ * @param rows The header row first, then the data rows
+ */
+export function downloadCsv(
+  filename: string,
+  rows: Array<Array<string | number>>,
+) {
+  const field = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const csv = rows.map((row) => row.map(field).join(',')).join('\r\n');
+  downloadBlob(filename, new Blob([csv + '\r\n'], {type: 'text/csv'}));
+}
+
+/**
+ * Encode an ArrayBuffer as base64, in chunks to stay under argument limits.
+ * @param buffer The bytes to encode
+ * @returns The base64 string
+ */
+export function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Crop a region out of an image and encode it as JPEG. Uses an
+ * OffscreenCanvas so it also works inside workers.
+ * @param image The image to crop from
+ * @param box The region to crop, in image pixels
+ * @returns The JPEG bytes as base64, without a data URL prefix
+ */
+export async function cropToJpegBase64(
+  image: CanvasImageSource,
+  box: {originX: number; originY: number; width: number; height: number},
+): Promise<string> {
+  const width = Math.max(1, Math.round(box.width));
+  const height = Math.max(1, Math.round(box.height));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(
+    image,
+    box.originX,
+    box.originY,
+    box.width,
+    box.height,
+    0,
+    0,
+    width,
+    height,
+  );
+  const blob = await canvas.convertToBlob({type: 'image/jpeg', quality: 0.9});
+  return arrayBufferToBase64(await blob.arrayBuffer());
+}
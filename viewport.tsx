@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Coordinate mapping between the three spaces the live view deals with:
+ *
+ *   frame   pixels of the source video or image, as detectors see them
+ *   screen  CSS pixels relative to the top-left of the view container
+ *   canvas  backing-store pixels of the overlay canvas (screen * dpr)
+ *
+ * The source is scaled into the container with `object-fit` semantics
+ * (cover crops, contain letterboxes), centered, and optionally mirrored.
+ */
+
+export type FitMode = 'cover' | 'contain';
+
+export interface ViewportOptions {
+  frameWidth: number;
+  frameHeight: number;
+  screenWidth: number;
+  screenHeight: number;
+  fit: FitMode;
+  mirrored: boolean;
+  devicePixelRatio: number;
+}
+
+export interface Viewport extends ViewportOptions {
+  // Screen pixels per frame pixel
+  scale: number;
+  // Screen position of the displayed frame's top-left corner (before
+  // mirroring); negative when cover crops the frame
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function createViewport(options: ViewportOptions): Viewport {
+  const {frameWidth, frameHeight, screenWidth, screenHeight, fit} = options;
+  const scaleX = frameWidth > 0 ? screenWidth / frameWidth : 1;
+  const scaleY = frameHeight > 0 ? screenHeight / frameHeight : 1;
+  const scale =
+    fit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  return {
+    ...options,
+    scale,
+    offsetX: (screenWidth - frameWidth * scale) / 2,
+    offsetY: (screenHeight - frameHeight * scale) / 2,
+  };
+}
+
+export function frameToScreen(viewport: Viewport, point: Point): Point {
+  const x = viewport.offsetX + point.x * viewport.scale;
+  return {
+    x: viewport.mirrored ? viewport.screenWidth - x : x,
+    y: viewport.offsetY + point.y * viewport.scale,
+  };
+}
+
+export function screenToFrame(viewport: Viewport, point: Point): Point {
+  const x = viewport.mirrored ? viewport.screenWidth - point.x : point.x;
+  return {
+    x: (x - viewport.offsetX) / viewport.scale,
+    y: (point.y - viewport.offsetY) / viewport.scale,
+  };
+}
+
+/**
+ * Map a frame-space box to screen space. Mirroring flips which edge is on
+ * the left, so the result always has a positive width.
+ */
+export function frameRectToScreen(
+  viewport: Viewport,
+  box: {originX: number; originY: number; width: number; height: number},
+): Rect {
+  const a = frameToScreen(viewport, {x: box.originX, y: box.originY});
+  const b = frameToScreen(viewport, {
+    x: box.originX + box.width,
+    y: box.originY + box.height,
+  });
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+}
+
+/**
+ * Map a landmark normalized to the frame (0-1 on both axes) to screen space.
+ */
+export function normalizedToScreen(viewport: Viewport, point: Point): Point {
+  return frameToScreen(viewport, {
+    x: point.x * viewport.frameWidth,
+    y: point.y * viewport.frameHeight,
+  });
+}
+
+export function screenToCanvas(viewport: Viewport, point: Point): Point {
+  return {
+    x: point.x * viewport.devicePixelRatio,
+    y: point.y * viewport.devicePixelRatio,
+  };
+}
+
+export function canvasToScreen(viewport: Viewport, point: Point): Point {
+  return {
+    x: point.x / viewport.devicePixelRatio,
+    y: point.y / viewport.devicePixelRatio,
+  };
+}
+
+/**
+ * Position of a pointer event in screen space, relative to `element`.
+ */
+export function eventToScreen(
+  event: {clientX: number; clientY: number},
+  element: Element,
+): Point {
+  const rect = element.getBoundingClientRect();
+  return {x: event.clientX - rect.left, y: event.clientY - rect.top};
+}
+
+// 2D context of an on-screen or offscreen overlay canvas
+export type OverlayContext =
+  CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Size a canvas's backing store for the viewport and set its transform so
+ * that drawing commands use screen (CSS pixel) coordinates.
+ */
+export function prepareCanvas(
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  ctx: OverlayContext,
+  viewport: Viewport,
+) {
+  const width = Math.round(viewport.screenWidth * viewport.devicePixelRatio);
+  const height = Math.round(viewport.screenHeight * viewport.devicePixelRatio);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  const dpr = viewport.devicePixelRatio;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+}
+
+export function sameViewport(a: Viewport | null, b: Viewport | null) {
+  if (!a || !b) return a === b;
+  return (
+    a.frameWidth === b.frameWidth &&
+    a.frameHeight === b.frameHeight &&
+    a.screenWidth === b.screenWidth &&
+    a.screenHeight === b.screenHeight &&
+    a.fit === b.fit &&
+    a.mirrored === b.mirrored &&
+    a.devicePixelRatio === b.devicePixelRatio
+  );
+}
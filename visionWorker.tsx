@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Worker that runs a vision backend off the main thread. It receives frames
+ * as transferred ImageBitmaps, so no pixels are copied, and also encodes the
+ * JPEG face crops sent for person analysis.
+ */
+
+import {createBackend, VisionBackend} from './backends.tsx';
+import {cropToJpegBase64} from './utils.tsx';
+import {WorkerRequest, WorkerResponse} from './workerProtocol.tsx';
+import {FilesetResolver} from '@mediapipe/tasks-vision';
+
+let backend: VisionBackend | null = null;
+
+function respond(response: WorkerResponse) {
+  self.postMessage(response);
+}
+
+async function handle(request: WorkerRequest): Promise<WorkerResponse> {
+  switch (request.type) {
+    case 'load': {
+      backend?.close();
+      backend = null;
+      const fileset = await FilesetResolver.forVisionTasks(
+        request.assets.wasmBasePath,
+      );
+      const next = createBackend(request.backendId);
+      await next.load({
+        fileset,
+        assets: request.assets,
+        delegate: request.delegate,
+      });
+      backend = next;
+      return {id: request.id, type: 'loaded'};
+    }
+    case 'detect': {
+      try {
+        if (!backend) throw new Error('No vision backend loaded.');
+        const result = await backend.detect(request.frame, request.timestampMs);
+        return {id: request.id, type: 'result', result};
+      } finally {
+        request.frame.close();
+      }
+    }
+    case 'crop': {
+      try {
+        const crops = await Promise.all(
+          request.boxes.map((box) => cropToJpegBase64(request.frame, box)),
+        );
+        return {id: request.id, type: 'crops', crops};
+      } finally {
+        request.frame.close();
+      }
+    }
+  }
+}
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  try {
+    respond(await handle(event.data));
+  } catch (e) {
+    respond({
+      id: event.data.id,
+      type: 'error',
+      message: e instanceof Error ? e.message : String(e),
+    });
+  }
+};
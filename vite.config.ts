@@ -1,12 +1,34 @@
+import { readFileSync } from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
+const pkg = JSON.parse(
+  readFileSync(path.resolve(__dirname, 'package.json'), 'utf-8'),
+);
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_BACKEND': JSON.stringify(env.GEMINI_BACKEND ?? ''),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL ?? ''),
+        'process.env.MEDIAPIPE_VERSION': JSON.stringify(
+          pkg.dependencies['@mediapipe/tasks-vision'].replace(/^[\^~]/, ''),
+        ),
+        'process.env.VISION_ASSET_BASE': JSON.stringify(
+          env.VISION_ASSET_BASE ?? '',
+        ),
+        'process.env.MEDIAPIPE_WASM_PATH': JSON.stringify(
+          env.MEDIAPIPE_WASM_PATH ?? '',
+        ),
+        'process.env.OBJECT_MODEL_URL': JSON.stringify(
+          env.OBJECT_MODEL_URL ?? '',
+        ),
+        'process.env.FACE_MODEL_URL': JSON.stringify(env.FACE_MODEL_URL ?? ''),
+        'process.env.HAND_MODEL_URL': JSON.stringify(env.HAND_MODEL_URL ?? ''),
+        'process.env.POSE_MODEL_URL': JSON.stringify(env.POSE_MODEL_URL ?? ''),
       },
       resolve: {
         alias: {
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Vision backends that run inside a dedicated Web Worker.
+ *
+ * `createWorkerBackend` wraps any registered backend id: frames are turned
+ * into ImageBitmaps and transferred to visionWorker.tsx, which runs the real
+ * backend and posts back the normalized `VisionResult`. The MediaPipe
+ * adapters are registered under `worker:<id>`.
+ *
+ * The worker is a classic one, which builds bundle into a single script.
+ * The dev server serves it as ES modules, which a classic worker cannot run;
+ * there, and wherever else the worker fails to load, the backend runs on the
+ * main thread instead. A worker that runs but cannot create the GPU delegate
+ * fails the load, so `loadBackend` retries on the CPU, still in a worker.
+ */
+
+import {
+  BackendLoadContext,
+  createBackend,
+  registerBackend,
+  VisionBackend,
+  VisionFrame,
+  VisionResult,
+} from './backends.tsx';
+import {BoundingBox} from './tracker.tsx';
+import {cropToJpegBase64} from './utils.tsx';
+import {WorkerRequest, WorkerResponse} from './workerProtocol.tsx';
+
+const WORKER_PREFIX = 'worker:';
+
+// Distributes Omit over the request union, so each variant keeps its fields
+type RequestBody<T = WorkerRequest> = T extends WorkerRequest
+  ? Omit<T, 'id'>
+  : never;
+
+/**
+ * Whether this browser can run vision backends in a worker. MediaPipe needs
+ * OffscreenCanvas there for its GPU delegate and image conversions.
+ */
+export function supportsVisionWorker(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined'
+  );
+}
+
+/**
+ * Pick the worker variant of a backend when the browser supports it.
+ * @param backendId A backend registered on the main thread
+ * @returns The id to create
+ */
+export function preferWorkerBackend(backendId: string): string {
+  return supportsVisionWorker() ? WORKER_PREFIX + backendId : backendId;
+}
+
+/**
+ * Create a backend that runs `backendId` inside a new worker. The worker is
+ * started on load and terminated on close.
+ * @param backendId The id of the backend to run inside the worker
+ */
+export function createWorkerBackend(backendId: string): VisionBackend {
+  let worker: Worker | null = null;
+  // The same backend on the main thread, if the worker could not load it
+  let fallback: VisionBackend | null = null;
+  // Whether the worker has answered any request, i.e. its script runs
+  let workerRuns = false;
+  let nextRequestId = 1;
+  const pending = new Map<
+    number,
+    {resolve: (response: WorkerResponse) => void; reject: (e: Error) => void}
+  >();
+
+  function rejectPending(error: Error) {
+    for (const {reject} of pending.values()) reject(error);
+    pending.clear();
+  }
+
+  function startWorker(): Worker {
+    // A classic worker, since MediaPipe loads its WASM glue code with
+    // importScripts, which module workers do not have
+    const next = new Worker(new URL('./visionWorker.tsx', import.meta.url));
+    next.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      workerRuns = true;
+      const response = event.data;
+      const request = pending.get(response.id);
+      if (!request) return;
+      pending.delete(response.id);
+      if (response.type === 'error') {
+        request.reject(new Error(response.message));
+      } else {
+        request.resolve(response);
+      }
+    };
+    next.onerror = (event) => {
+      rejectPending(new Error(event.message || 'Vision worker failed'));
+    };
+    return next;
+  }
+
+  function send(
+    body: RequestBody,
+    transfer: Transferable[] = [],
+  ): Promise<WorkerResponse> {
+    if (!worker) {
+      return Promise.reject(new Error(`${backendId} worker is not running`));
+    }
+    const id = nextRequestId++;
+    const request = {...body, id} as WorkerRequest;
+    return new Promise((resolve, reject) => {
+      pending.set(id, {resolve, reject});
+      worker!.postMessage(request, transfer);
+    });
+  }
+
+  return {
+    id: WORKER_PREFIX + backendId,
+    async load(context: BackendLoadContext) {
+      worker ??= startWorker();
+      try {
+        // The fileset is not transferable; the worker resolves its own
+        await send({
+          type: 'load',
+          backendId,
+          assets: context.assets,
+          delegate: context.delegate,
+        });
+      } catch (e) {
+        // The worker works but its GPU delegate does not; the CPU retry
+        // should stay off the main thread too
+        if (workerRuns && context.delegate === 'GPU') throw e;
+        console.warn(`Running ${backendId} on the main thread`, e);
+        worker?.terminate();
+        worker = null;
+        fallback = createBackend(backendId);
+        await fallback.load(context);
+      }
+    },
+    async detect(frame: VisionFrame, timestampMs: number) {
+      if (fallback) return fallback.detect(frame, timestampMs);
+      const bitmap = await createImageBitmap(frame);
+      const response = await send(
+        {type: 'detect', frame: bitmap, timestampMs},
+        [bitmap],
+      );
+      return (response as {result: VisionResult}).result;
+    },
+    async encodeCrops(frame: VisionFrame, boxes: BoundingBox[]) {
+      if (fallback) {
+        return Promise.all(boxes.map((box) => cropToJpegBase64(frame, box)));
+      }
+      const bitmap = await createImageBitmap(frame);
+      const response = await send({type: 'crop', frame: bitmap, boxes}, [
+        bitmap,
+      ]);
+      return (response as {crops: string[]}).crops;
+    },
+    close() {
+      fallback?.close();
+      fallback = null;
+      if (!worker) return;
+      worker.terminate();
+      worker = null;
+      workerRuns = false;
+      rejectPending(new Error(`${backendId} worker was closed`));
+    },
+  };
+}
+
+for (const backendId of [
+  'mediapipe-object',
+  'mediapipe-face',
+  'mediapipe-hands',
+  'mediapipe-pose',
+]) {
+  registerBackend(WORKER_PREFIX + backendId, () =>
+    createWorkerBackend(backendId),
+  );
+}
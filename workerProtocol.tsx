@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Messages exchanged with the vision worker (visionWorker.tsx). Every request
+ * carries an id that its response echoes, so the client can match them up.
+ *
+ * The overlay worker (overlayWorker.tsx) draws one overlay at a time and
+ * answers each draw, so its messages need no ids.
+ */
+
+import {Delegate, VisionResult} from './backends.tsx';
+import {VisionAssetConfig} from './config.tsx';
+import {DisplayList} from './displayList.tsx';
+import {BoundingBox} from './tracker.tsx';
+
+export type WorkerRequest =
+  | {
+      id: number;
+      type: 'load';
+      // Registered id of the backend to run inside the worker
+      backendId: string;
+      assets: VisionAssetConfig;
+      delegate: Delegate;
+    }
+  | {id: number; type: 'detect'; frame: ImageBitmap; timestampMs: number}
+  | {id: number; type: 'crop'; frame: ImageBitmap; boxes: BoundingBox[]};
+
+export type WorkerResponse =
+  | {id: number; type: 'loaded'}
+  | {id: number; type: 'result'; result: VisionResult}
+  | {id: number; type: 'crops'; crops: string[]}
+  | {id: number; type: 'error'; message: string};
+
+export type OverlayWorkerRequest =
+  | {type: 'init'; canvas: OffscreenCanvas}
+  // Resize the canvas to `width` x `height` device pixels and draw `list`
+  | {type: 'draw'; width: number; height: number; list: DisplayList}
+  | {type: 'clear'};
+
+export type OverlayWorkerResponse =
+  {type: 'ready'} | {type: 'drawn'} | {type: 'error'; message: string};
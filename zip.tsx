@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Minimal ZIP reader for extracting image sequences in the browser.
+ * Supports stored and deflated entries (what every common zip tool writes);
+ * ZIP64 archives and encryption are not supported.
+ */
+
+export interface ZipEntry {
+  name: string;
+  blob: Blob;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record is 22 bytes plus a comment of up to 64 KiB
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let i = view.byteLength - 22; i >= minOffset; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) return i;
+  }
+  throw new Error('Not a ZIP archive.');
+}
+
+/**
+ * Whether a path is file system or archiver metadata rather than content:
+ * anything under `__MACOSX/`, or a dot-file such as `.DS_Store` or the
+ * `._name` copies macOS writes next to each file.
+ */
+export function isMetadataPath(path: string): boolean {
+  return path
+    .split('/')
+    .some((part) => part === '__MACOSX' || /^\.[^./]/.test(part));
+}
+
+async function inflate(data: Blob): Promise<Blob> {
+  const stream = data
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).blob();
+}
+
+/**
+ * Read the files of a ZIP archive.
+ * @param file The archive
+ * @param filter Called with each entry name; only matching entries are read.
+ *     Directories and metadata (see `isMetadataPath`) are always skipped.
+ * @returns The matching entries, in archive order
+ */
+export async function readZip(
+  file: Blob,
+  filter: (name: string) => boolean = () => true,
+): Promise<ZipEntry[]> {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported.');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory.');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      new Uint8Array(buffer, offset + 46, nameLength),
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || isMetadataPath(name) || !filter(name)) continue;
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt ZIP entry: ${name}`);
+    }
+    // The local header's name and extra fields may differ from the central
+    // directory's, so its own lengths locate the data.
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const data = file.slice(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      entries.push({name, blob: data});
+    } else if (method === 8) {
+      entries.push({name, blob: await inflate(data)});
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method}: ${name}`);
+    }
+  }
+  return entries;
+}
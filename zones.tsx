@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/* tslint:disable */
+// Copyright 2024 Google LLC
+
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+
+//     https://www.apache.org/licenses/LICENSE-2.0
+
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Polygon zones over the frame, and which tracked objects are inside them.
+ *
+ * Zones are stored in normalized frame coordinates (0-1 on both axes), so
+ * they survive resolution changes of the source. A track is inside a zone
+ * when the center of its box is. The monitor compares membership frame to
+ * frame and reports typed events: `enter` and `exit` when a track crosses
+ * a zone's edge (or appears or vanishes inside it), and one `dwell` per
+ * stay once a track has been inside for the dwell time.
+ *
+ * Like the tracker, this module has no DOM dependencies.
+ */
+
+import {boxCenter, Track} from './tracker.tsx';
+import {Point} from './viewport.tsx';
+
+export interface Zone {
+  id: string;
+  name: string;
+  // Vertices in normalized frame coordinates
+  points: Point[];
+  // Only tracks whose category contains one of these count; empty for all
+  categories: string[];
+}
+
+export type ZoneEventType = 'enter' | 'exit' | 'dwell';
+
+export interface ZoneEvent {
+  type: ZoneEventType;
+  zoneId: string;
+  zoneName: string;
+  trackId: number;
+  category: string;
+  // Timestamp of the frame the event was detected in
+  timestampMs: number;
+  // How long the track has been inside; 0 for 'enter'
+  dwellMs: number;
+}
+
+export interface ZoneMonitorOptions {
+  // Time inside a zone before a 'dwell' event
+  dwellMs: number;
+}
+
+export const defaultZoneMonitorOptions: ZoneMonitorOptions = {
+  dwellMs: 5000,
+};
+
+export interface ZoneMonitor {
+  /**
+   * Evaluate one frame.
+   * @param tracks The frame's tracks, in frame pixels
+   * @param frameSize The frame's size, to normalize track positions
+   * @param timestampMs The frame's timestamp
+   * @returns The events caused by this frame, exits first
+   */
+  update(
+    tracks: Track[],
+    frameSize: {width: number; height: number},
+    timestampMs: number,
+  ): ZoneEvent[];
+  // Takes effect on the next update; removed zones report no exits
+  setZones(zones: Zone[]): void;
+  // Track ids inside each zone, by zone id
+  occupancy(): Map<string, number[]>;
+  // Forget all occupants without reporting exits, e.g. after a seek
+  reset(): void;
+  getOptions(): ZoneMonitorOptions;
+  setOptions(options: Partial<ZoneMonitorOptions>): void;
+}
+
+/**
+ * Whether a point is inside a polygon, by ray casting.
+ */
+export function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a zone applies to a category; matching is by substring, as with
+ * the object target filter.
+ */
+export function zoneMatchesCategory(zone: Zone, category: string): boolean {
+  return (
+    zone.categories.length === 0 ||
+    zone.categories.some((target) => category.includes(target))
+  );
+}
+
+interface Occupant {
+  category: string;
+  enteredAt: number;
+  dwelled: boolean;
+}
+
+export function createZoneMonitor(
+  options?: Partial<ZoneMonitorOptions>,
+): ZoneMonitor {
+  let opts: ZoneMonitorOptions = {...defaultZoneMonitorOptions, ...options};
+  let zones: Zone[] = [];
+  // Zone id -> track id -> occupant
+  const occupants = new Map<string, Map<number, Occupant>>();
+
+  function update(
+    tracks: Track[],
+    frameSize: {width: number; height: number},
+    timestampMs: number,
+  ) {
+    const exits: ZoneEvent[] = [];
+    const others: ZoneEvent[] = [];
+    for (const zone of zones) {
+      const inside = occupants.get(zone.id) ?? new Map<number, Occupant>();
+      occupants.set(zone.id, inside);
+      const event = (
+        type: ZoneEventType,
+        trackId: number,
+        occupant: Occupant,
+      ): ZoneEvent => ({
+        type,
+        zoneId: zone.id,
+        zoneName: zone.name,
+        trackId,
+        category: occupant.category,
+        timestampMs,
+        dwellMs: timestampMs - occupant.enteredAt,
+      });
+
+      const present = new Set<number>();
+      for (const track of tracks) {
+        if (!zoneMatchesCategory(zone, track.category)) continue;
+        const center = boxCenter(track.bbox);
+        const point = {
+          x: center.x / frameSize.width,
+          y: center.y / frameSize.height,
+        };
+        if (!pointInPolygon(point, zone.points)) continue;
+        present.add(track.id);
+        let occupant = inside.get(track.id);
+        if (!occupant) {
+          occupant = {
+            category: track.category,
+            enteredAt: timestampMs,
+            dwelled: false,
+          };
+          inside.set(track.id, occupant);
+          others.push(event('enter', track.id, occupant));
+        } else if (
+          !occupant.dwelled &&
+          timestampMs - occupant.enteredAt >= opts.dwellMs
+        ) {
+          occupant.dwelled = true;
+          others.push(event('dwell', track.id, occupant));
+        }
+      }
+      for (const [trackId, occupant] of inside) {
+        if (present.has(trackId)) continue;
+        inside.delete(trackId);
+        exits.push(event('exit', trackId, occupant));
+      }
+    }
+    return [...exits, ...others];
+  }
+
+  return {
+    update,
+    setZones(next) {
+      zones = next;
+      const ids = new Set(next.map((zone) => zone.id));
+      for (const id of occupants.keys()) {
+        if (!ids.has(id)) occupants.delete(id);
+      }
+    },
+    occupancy() {
+      const result = new Map<string, number[]>();
+      for (const [zoneId, inside] of occupants) {
+        result.set(zoneId, [...inside.keys()]);
+      }
+      return result;
+    },
+    reset() {
+      occupants.clear();
+    },
+    getOptions: () => opts,
+    setOptions(changes) {
+      opts = {...opts, ...changes};
+    },
+  };
+}